@@ -11,6 +11,7 @@ export class GameClient {
     private static _instance: GameClient;
     private ws: WebSocket | null = null;
     private config: GameClientConfig;
+    private actionSeq: number = 0;
 
     // Event listeners
     private listeners: Map<S2CMessageType, Set<MessageHandler>> = new Map();
@@ -122,12 +123,15 @@ export class GameClient {
         });
     }
 
-    public spawnCard(cardIndex: number, x: number, y: number) {
+    public spawnCard(cardIndex: number, x: number, y: number): number {
+        const seq = ++this.actionSeq;
         this.send({
             type: C2SMessageType.SPAWN_CARD,
+            seq,
             cardIndex,
             x,
             y
         });
+        return seq;
     }
 }
@@ -1,21 +1,24 @@
 
-import { GAME_CONFIG } from '@crom/shared';
-
 /**
  * ViewportConverter
  * 
- * Responsável por converter coordenadas lógicas do servidor (30x40)
+ * Responsável por converter coordenadas lógicas do servidor (tamanho da arena)
  * para pixels na tela, mantendo o aspect ratio e centralização.
  */
 export class ViewportConverter {
     private scale: number = 20; // Default scale: 1 unit = 20 pixels
     private offsetX: number = 0;
     private offsetY: number = 0;
-    private worldWidth: number = GAME_CONFIG.MAP_WIDTH;
-    private worldHeight: number = GAME_CONFIG.MAP_HEIGHT;
+    private worldWidth: number;
+    private worldHeight: number;
 
     private isFlipped: boolean = false;
 
+    constructor(worldWidth: number, worldHeight: number) {
+        this.worldWidth = worldWidth;
+        this.worldHeight = worldHeight;
+    }
+
     public setFlipped(flipped: boolean) {
         this.isFlipped = flipped;
     }
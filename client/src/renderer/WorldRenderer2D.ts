@@ -1,30 +1,85 @@
 
 import * as PIXI from 'pixi.js';
 import { ViewportConverter } from './ViewportConverter.js';
-import { GAME_CONFIG, EntityStateCode } from '@crom/shared';
-import type { EntityDelta, EntitySpawnData } from '@crom/shared';
+import { EntityStateCode, StatusEffectType, MovementLayer, PHYSICS } from '@crom/shared';
+import type { ArenaDefinition, ArenaZone, EntityDelta, EntitySpawnData, ProjectileDelta, S2CSpellCast } from '@crom/shared';
+
+/** Duração do efeito visual de feitiço (ms) */
+const SPELL_EFFECT_DURATION_MS = 600;
+
+/** Período do pulso do anel de invocação enquanto a unidade está em deploy (ms) */
+const DEPLOY_PULSE_MS = 500;
+
+/** Visual do projétil por unidade que disparou (default: flecha) */
+const PROJECTILE_STYLES: Record<string, { color: number; length: number; width: number }> = {
+    archer_base: { color: 0xd9b38c, length: 0.6, width: 2 },
+    mage_solar: { color: 0xffd54f, length: 0.35, width: 5 },
+    wyvern_base: { color: 0xff7043, length: 0.3, width: 6 },
+    tower_small: { color: 0xcccccc, length: 0.5, width: 3 },
+    tower_core: { color: 0xffd700, length: 0.5, width: 4 },
+    cannon: { color: 0x555555, length: 0.3, width: 6 },
+};
+const DEFAULT_PROJECTILE_STYLE = { color: 0xffffff, length: 0.5, width: 2 };
+
+/** Altura visual (unidades do grid) das unidades aéreas acima da sombra */
+const AIR_UNIT_ELEVATION = 0.6;
+
+/** Cor do anel de cada efeito de status */
+const STATUS_EFFECT_COLORS: Record<StatusEffectType, number> = {
+    [StatusEffectType.BURN]: 0xff6a00,
+    [StatusEffectType.SLOW]: 0x5c7cfa,
+    [StatusEffectType.FREEZE]: 0x7fdfff,
+    [StatusEffectType.STUN]: 0xffee58,
+};
+
+/** Cor do efeito por feitiço */
+const SPELL_COLORS: Record<string, number> = {
+    fireball: 0xff6a00,
+    freeze: 0x7fdfff,
+    heal: 0x66ff88,
+};
 
 
 export class WorldRenderer2D {
     private app: PIXI.Application;
     private viewport: ViewportConverter;
     private container: HTMLElement;
+    // Arena of the match: size, river, bridges and deploy zones
+    private arena: ArenaDefinition;
 
     // Layers
     private mapLayer: PIXI.Container;
     private entityLayer: PIXI.Container;
+    private effectLayer: PIXI.Container;
     private debugLayer: PIXI.Container;
 
     // Entity Sprites Map
     private entities: Map<string, PIXI.Container> = new Map();
 
-    constructor(container: HTMLElement) {
+    // Collision radius of each entity (grid units), used to size the body and its rings
+    private radii: Map<string, number> = new Map();
+
+    // Projectiles in flight
+    private projectiles: Map<string, PIXI.Graphics> = new Map();
+
+    // Status effect rings (key = efeitos ativos, para redesenhar só quando mudam)
+    private statusVisuals: Map<string, { key: string; rings: PIXI.Graphics }> = new Map();
+
+    // Spawn effect of units still deploying (pulsing ring, removed when deploy ends)
+    private deployVisuals: Map<string, { ring: PIXI.Graphics; animate: (ticker: PIXI.Ticker) => void }> = new Map();
+
+    // Tower activation visuals (king tower sleeps until activated)
+    private towerVisuals: Map<string, { aura: PIXI.Graphics; badge: PIXI.Text }> = new Map();
+
+    constructor(container: HTMLElement, arena: ArenaDefinition) {
         this.container = container;
+        this.arena = arena;
         this.app = new PIXI.Application();
-        this.viewport = new ViewportConverter();
+        this.viewport = new ViewportConverter(arena.width, arena.height);
 
         this.mapLayer = new PIXI.Container();
         this.entityLayer = new PIXI.Container();
+        this.effectLayer = new PIXI.Container();
         this.debugLayer = new PIXI.Container();
     }
 
@@ -39,6 +94,7 @@ export class WorldRenderer2D {
 
         this.app.stage.addChild(this.mapLayer);
         this.app.stage.addChild(this.entityLayer);
+        this.app.stage.addChild(this.effectLayer);
         this.app.stage.addChild(this.debugLayer);
 
         this.updateViewport();
@@ -65,7 +121,8 @@ export class WorldRenderer2D {
         const size = this.viewport.getWorldSizeInPixels();
         // const origin = this.viewport.toPixels(0, 0);
 
-        const topLeft = this.viewport.toPixels(0, GAME_CONFIG.MAP_HEIGHT);
+        const { width, height, river, deployZones } = this.arena;
+        const topLeft = this.viewport.toPixels(0, height);
 
         // Draw Map Border
         graphics.setStrokeStyle(2);
@@ -76,36 +133,66 @@ export class WorldRenderer2D {
 
         // Draw Grid
         graphics.setStrokeStyle(1);
-        for (let x = 0; x <= GAME_CONFIG.MAP_WIDTH; x++) {
+        for (let x = 0; x <= width; x++) {
             const pStart = this.viewport.toPixels(x, 0);
-            const pEnd = this.viewport.toPixels(x, GAME_CONFIG.MAP_HEIGHT);
+            const pEnd = this.viewport.toPixels(x, height);
             graphics.moveTo(pStart.x, pStart.y);
             graphics.lineTo(pEnd.x, pEnd.y);
             graphics.stroke({ color: 0x222244, alpha: 0.5 });
         }
 
-        for (let y = 0; y <= GAME_CONFIG.MAP_HEIGHT; y++) {
+        for (let y = 0; y <= height; y++) {
             const pStart = this.viewport.toPixels(0, y);
-            const pEnd = this.viewport.toPixels(GAME_CONFIG.MAP_WIDTH, y);
+            const pEnd = this.viewport.toPixels(width, y);
             graphics.moveTo(pStart.x, pStart.y);
             graphics.lineTo(pEnd.x, pEnd.y);
             graphics.stroke({ color: 0x222244, alpha: 0.5 });
         }
 
-        // Draw Deploy Zones
-        const p1Zone = this.viewport.toPixels(0, GAME_CONFIG.PLAYER_1_DEPLOY_ZONE_MAX_Y);
-        graphics.moveTo(topLeft.x, p1Zone.y);
-        graphics.lineTo(topLeft.x + size.width, p1Zone.y);
-        graphics.stroke({ color: 0x00ff00, alpha: 0.3 });
+        // Draw River and Bridges
+        if (river) {
+            const water = this.toPixelRect(0, river.minY, width, river.maxY);
+            graphics.rect(water.x, water.y, water.width, water.height);
+            graphics.fill({ color: 0x1e5f8c, alpha: 0.8 });
+
+            for (const bridge of river.bridges) {
+                const rect = this.toPixelRect(bridge.minX, river.minY, bridge.maxX, river.maxY);
+                graphics.rect(rect.x, rect.y, rect.width, rect.height);
+                graphics.fill({ color: 0x8d6e63 });
+                graphics.stroke({ color: 0x5d4037, width: 2 });
+            }
+        }
 
-        const p2Zone = this.viewport.toPixels(0, GAME_CONFIG.PLAYER_2_DEPLOY_ZONE_MIN_Y);
-        graphics.moveTo(topLeft.x, p2Zone.y);
-        graphics.lineTo(topLeft.x + size.width, p2Zone.y);
-        graphics.stroke({ color: 0xff0000, alpha: 0.3 });
+        // Draw Deploy Zones
+        this.drawZone(graphics, deployZones.player1, 0x00ff00);
+        this.drawZone(graphics, deployZones.player2, 0xff0000);
 
         this.mapLayer.addChild(graphics);
     }
 
+    /**
+     * Contorna uma zona de deploy da arena.
+     */
+    private drawZone(graphics: PIXI.Graphics, zone: ArenaZone, color: number) {
+        const rect = this.toPixelRect(zone.minX, zone.minY, zone.maxX, zone.maxY);
+        graphics.rect(rect.x, rect.y, rect.width, rect.height);
+        graphics.stroke({ color, alpha: 0.3 });
+    }
+
+    /**
+     * Converte um retângulo lógico em pixels (independente da orientação da câmera).
+     */
+    private toPixelRect(minX: number, minY: number, maxX: number, maxY: number) {
+        const a = this.viewport.toPixels(minX, minY);
+        const b = this.viewport.toPixels(maxX, maxY);
+        return {
+            x: Math.min(a.x, b.x),
+            y: Math.min(a.y, b.y),
+            width: Math.abs(b.x - a.x),
+            height: Math.abs(b.y - a.y),
+        };
+    }
+
     /**
      * Spawna uma nova representação visual de entidade.
      */
@@ -113,12 +200,30 @@ export class WorldRenderer2D {
         if (this.entities.has(data.id)) return;
 
         const container = new PIXI.Container();
+        const isFlying = data.movementLayer === MovementLayer.AIR;
+        const elevation = isFlying ? this.viewport.scalarToPixels(AIR_UNIT_ELEVATION) : 0;
+        const radius = this.viewport.scalarToPixels(data.radius);
+        this.radii.set(data.id, data.radius);
+
+        // Unidades aéreas: sombra na posição real, corpo desenhado acima
+        if (isFlying) {
+            const shadow = new PIXI.Graphics();
+            shadow.ellipse(0, 0, radius, radius / 2);
+            shadow.fill({ color: 0x000000, alpha: 0.4 });
+            container.addChild(shadow);
+        }
 
-        // Base Circle (Placeholder sprite)
+        // Base Circle (Placeholder sprite), drawn at the collision radius
         const body = new PIXI.Graphics();
         const color = data.ownerId === 'player1' ? 0x4ecca3 : 0xe94560;
         body.beginPath();
-        body.circle(0, 0, this.viewport.scalarToPixels(0.4));
+        if (data.isBuilding) {
+            // Prédios: bloco quadrado inscrito no círculo de colisão
+            const half = radius * Math.SQRT1_2;
+            body.rect(-half, -half, half * 2, half * 2);
+        } else {
+            body.circle(0, -elevation, radius);
+        }
         body.fill({ color });
         body.setStrokeStyle(2);
         body.stroke({ color: 0xffffff });
@@ -135,17 +240,21 @@ export class WorldRenderer2D {
             }
         });
         text.anchor.set(0.5, 1);
-        text.y = -this.viewport.scalarToPixels(0.6);
+        text.y = -radius - this.viewport.scalarToPixels(0.1) - elevation;
         container.addChild(text);
 
         // Hitbox Debug
         const debug = new PIXI.Graphics();
         debug.beginPath();
-        debug.circle(0, 0, this.viewport.scalarToPixels(0.5));
+        debug.circle(0, 0, radius);
         debug.stroke({ color: 0xff0000, width: 1 });
         debug.visible = true; // We want hitboxes visible for now as per requirements
         container.addChild(debug);
 
+        if (data.isTower) {
+            this.addTowerVisuals(data, container);
+        }
+
         const pos = this.viewport.toPixels(data.position.x, data.position.y);
         container.x = pos.x;
         container.y = pos.y;
@@ -154,6 +263,48 @@ export class WorldRenderer2D {
         this.entities.set(data.id, container);
     }
 
+    /**
+     * Adiciona aura e indicador de estado (adormecida/desperta) a uma torre.
+     */
+    private addTowerVisuals(data: EntitySpawnData, container: PIXI.Container) {
+        const aura = new PIXI.Graphics();
+        aura.beginPath();
+        aura.circle(0, 0, this.viewport.scalarToPixels(data.radius + 0.3));
+        aura.stroke({ color: 0xffd700, width: 3 });
+        container.addChildAt(aura, 0);
+
+        const badge = new PIXI.Text({
+            text: 'zZ',
+            style: {
+                fill: 0xaaaacc,
+                fontSize: 12,
+                fontWeight: 'bold'
+            }
+        });
+        badge.anchor.set(0, 1);
+        badge.x = this.viewport.scalarToPixels(data.radius);
+        badge.y = -this.viewport.scalarToPixels(0.3);
+        container.addChild(badge);
+
+        this.towerVisuals.set(data.id, { aura, badge });
+        this.setTowerActive(data.id, data.isActive ?? true);
+    }
+
+    /**
+     * Alterna o visual de uma torre entre adormecida (apagada) e desperta (aura dourada).
+     */
+    public setTowerActive(id: string, active: boolean) {
+        const container = this.entities.get(id);
+        const visuals = this.towerVisuals.get(id);
+        if (!visuals) return;
+
+        visuals.aura.visible = active;
+        visuals.badge.visible = !active;
+        if (container) {
+            container.alpha = active ? 1 : 0.5;
+        }
+    }
+
     /**
      * Atualiza as entidades baseadas no tick do servidor.
      */
@@ -170,8 +321,12 @@ export class WorldRenderer2D {
                 // Handle Dead state
                 if (delta.s === EntityStateCode.DEAD) {
                     this.removeEntity(delta.id);
+                    return;
                 }
 
+                this.updateDeploying(delta.id, container, delta.s === EntityStateCode.DEPLOYING);
+                this.updateStatusEffects(delta.id, container, delta.fx ?? []);
+
                 // HP Bar update (placeholder)
                 // ...
             }
@@ -181,15 +336,158 @@ export class WorldRenderer2D {
         // But usually server sends all active ones.
     }
 
+    /**
+     * Mostra o efeito de invocação (anel pulsante e corpo translúcido) enquanto a unidade está em deploy.
+     */
+    private updateDeploying(id: string, container: PIXI.Container, deploying: boolean) {
+        const visuals = this.deployVisuals.get(id);
+        if (deploying === (visuals !== undefined)) return;
+
+        if (!deploying) {
+            this.clearDeployVisuals(id);
+            container.alpha = 1;
+            return;
+        }
+
+        const ring = new PIXI.Graphics();
+        ring.beginPath();
+        ring.circle(0, 0, this.viewport.scalarToPixels(this.getRadius(id) + 0.2));
+        ring.fill({ color: 0xffffff, alpha: 0.15 });
+        ring.stroke({ color: 0xffffff, width: 2 });
+        container.addChildAt(ring, 0);
+        container.alpha = 0.6;
+
+        let elapsed = 0;
+        const animate = (ticker: PIXI.Ticker) => {
+            elapsed += ticker.deltaMS;
+            const t = (elapsed % DEPLOY_PULSE_MS) / DEPLOY_PULSE_MS;
+            ring.scale.set(1 - 0.4 * t);
+            ring.alpha = 1 - t;
+        };
+        this.app.ticker.add(animate);
+        this.deployVisuals.set(id, { ring, animate });
+    }
+
+    private clearDeployVisuals(id: string) {
+        const visuals = this.deployVisuals.get(id);
+        if (!visuals) return;
+
+        this.app.ticker.remove(visuals.animate);
+        visuals.ring.destroy();
+        this.deployVisuals.delete(id);
+    }
+
+    /**
+     * Desenha um anel colorido por efeito de status ativo (queimando, lento, congelado, atordoado).
+     */
+    private updateStatusEffects(id: string, container: PIXI.Container, effects: StatusEffectType[]) {
+        const key = effects.join(',');
+        let visuals = this.statusVisuals.get(id);
+        if (visuals?.key === key) return;
+
+        if (!visuals) {
+            visuals = { key: '', rings: new PIXI.Graphics() };
+            container.addChild(visuals.rings);
+            this.statusVisuals.set(id, visuals);
+        }
+
+        visuals.key = key;
+        visuals.rings.clear();
+        const radius = this.getRadius(id);
+        effects.forEach((effect, index) => {
+            visuals!.rings.circle(0, 0, this.viewport.scalarToPixels(radius + 0.12 * index));
+            visuals!.rings.stroke({ color: STATUS_EFFECT_COLORS[effect], width: 2 });
+        });
+    }
+
+    /**
+     * Sincroniza os projéteis em voo (flechas, raios) com o tick do servidor.
+     */
+    public updateProjectiles(deltas: ProjectileDelta[]) {
+        const seen = new Set<string>();
+
+        deltas.forEach(delta => {
+            seen.add(delta.id);
+
+            let sprite = this.projectiles.get(delta.id);
+            if (!sprite) {
+                const style = PROJECTILE_STYLES[delta.unitId] ?? DEFAULT_PROJECTILE_STYLE;
+                sprite = new PIXI.Graphics();
+                sprite.moveTo(-this.viewport.scalarToPixels(style.length) / 2, 0);
+                sprite.lineTo(this.viewport.scalarToPixels(style.length) / 2, 0);
+                sprite.stroke({ color: style.color, width: style.width, cap: 'round' });
+                this.effectLayer.addChild(sprite);
+                this.projectiles.set(delta.id, sprite);
+            }
+
+            const pos = this.viewport.toPixels(delta.x, delta.y);
+            const target = this.viewport.toPixels(delta.tx, delta.ty);
+            sprite.x = pos.x;
+            sprite.y = pos.y;
+            sprite.rotation = Math.atan2(target.y - pos.y, target.x - pos.x);
+        });
+
+        // Projéteis que chegaram (ou erraram) deixam de vir no tick
+        this.projectiles.forEach((sprite, id) => {
+            if (!seen.has(id)) {
+                this.effectLayer.removeChild(sprite);
+                sprite.destroy();
+                this.projectiles.delete(id);
+            }
+        });
+    }
+
+    /**
+     * Desenha a área de um feitiço conjurado, expandindo e desaparecendo.
+     */
+    public playSpellEffect(cast: S2CSpellCast) {
+        const color = SPELL_COLORS[cast.spellId] ?? 0xffffff;
+        const radiusPx = this.viewport.scalarToPixels(cast.radius);
+
+        const effect = new PIXI.Graphics();
+        effect.beginPath();
+        effect.circle(0, 0, radiusPx);
+        effect.fill({ color, alpha: 0.35 });
+        effect.stroke({ color, width: 3 });
+
+        const pos = this.viewport.toPixels(cast.position.x, cast.position.y);
+        effect.x = pos.x;
+        effect.y = pos.y;
+        this.effectLayer.addChild(effect);
+
+        let elapsed = 0;
+        const animate = (ticker: PIXI.Ticker) => {
+            elapsed += ticker.deltaMS;
+            const t = Math.min(1, elapsed / SPELL_EFFECT_DURATION_MS);
+            effect.scale.set(0.6 + 0.4 * t);
+            effect.alpha = 1 - t;
+
+            if (t >= 1) {
+                this.app.ticker.remove(animate);
+                this.effectLayer.removeChild(effect);
+                effect.destroy();
+            }
+        };
+        this.app.ticker.add(animate);
+    }
+
     public removeEntity(id: string) {
         const container = this.entities.get(id);
         if (container) {
             this.entityLayer.removeChild(container);
             this.entities.delete(id);
+            this.clearDeployVisuals(id);
+            this.towerVisuals.delete(id);
+            this.statusVisuals.delete(id);
+            this.radii.delete(id);
             container.destroy({ children: true });
         }
     }
 
+    private getRadius(id: string): number {
+        return this.radii.get(id) ?? PHYSICS.COLLISION_RADIUS;
+    }
+
     public getApp() {
         return this.app;
     }
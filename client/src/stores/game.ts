@@ -1,7 +1,7 @@
 import { defineStore } from 'pinia';
 import { ref, computed, reactive } from 'vue';
 import { GameClient } from '../net/GameClient';
-import { S2CMessageType, type EntitySpawnData, type GameTickPayload, type S2CError, type S2CLoginSuccess, type S2CMatchStart, type S2CEntitySpawned, type S2CGameTick } from '../net/protocol';
+import { S2CMessageType, type EntitySpawnData, type GameTickPayload, type HandCardData, type S2CError, type S2CLoginSuccess, type S2CMatchStart, type S2CEntitySpawned, type S2CGameTick, type S2CHandUpdate, type S2CTowerActivated, type S2CMatchPhase, type S2CMatchEnd, type S2CManaPhase, type S2CSpellCast, type S2CSynergyUpdate, type ActiveSynergyData, type S2CActionAck } from '../net/protocol';
 
 export const useGameStore = defineStore('game', () => {
     // State
@@ -16,14 +16,25 @@ export const useGameStore = defineStore('game', () => {
     // Game State
     const entityRegistry = reactive(new Map<string, EntitySpawnData>());
     const lastTick = ref<GameTickPayload | null>(null);
+    const activatedTowers = reactive(new Set<string>());
+    const matchPhase = ref<S2CMatchPhase | null>(null);
+    const matchResult = ref<S2CMatchEnd | null>(null);
+    const lastSpellCast = ref<S2CSpellCast | null>(null);
+    const activeSynergies = ref<ActiveSynergyData[]>([]);
 
-    const mana = ref({ current: 0, max: 10 });
+    const mana = ref({ current: 0, max: 10, multiplier: 1 });
+
+    // Card cycle (owned by the server)
+    const hand = ref<HandCardData[]>([]);
+    const nextCard = ref<HandCardData | null>(null);
+    // Spawns waiting for ACTION_ACK (seq → hand index)
+    const pendingActions = reactive(new Map<number, number>());
 
     // Deck & collection (Synced with server/src/data/units.json)
     const collection = ref([
         { id: 'knight_base', elixir: 3, level: 9 },
         { id: 'archer_base', elixir: 3, level: 9 },
-        { id: 'giant_base', elixir: 5, level: 9 }, // Assuming giant_base exists or we use placeholder
+        { id: 'giant_base', elixir: 5, level: 9 },
         { id: 'mage_base', elixir: 4, level: 8 },
         // Using knight_base as placeholder for others until we have full DB
         { id: 'minipekka_base', elixir: 4, level: 7 },
@@ -32,6 +43,13 @@ export const useGameStore = defineStore('game', () => {
         { id: 'skeletonarmy_base', elixir: 3, level: 4 },
         { id: 'goblins_base', elixir: 2, level: 9 },
         { id: 'speargoblins_base', elixir: 2, level: 9 },
+        // Buildings
+        { id: 'cannon', elixir: 3, level: 9 },
+        { id: 'hut', elixir: 5, level: 9 },
+        // Spells
+        { id: 'fireball', elixir: 4, level: 9 },
+        { id: 'freeze', elixir: 4, level: 9 },
+        { id: 'heal', elixir: 3, level: 9 },
     ]);
 
     // IDs in current deck
@@ -91,15 +109,61 @@ export const useGameStore = defineStore('game', () => {
             inQueue.value = false;
             matchData.value = msg;
             entityRegistry.clear();
+            activatedTowers.clear();
+            matchPhase.value = null;
+            matchResult.value = null;
+            activeSynergies.value = [];
+            mana.value = { current: 0, max: 10, multiplier: 1 };
+            pendingActions.clear();
+            hand.value = [];
+            nextCard.value = null;
 
             lastTick.value = null;
         });
 
+        client.on<S2CHandUpdate>(S2CMessageType.HAND_UPDATE, (msg) => {
+            hand.value = msg.hand;
+            nextCard.value = msg.next;
+        });
+
+        client.on<S2CActionAck>(S2CMessageType.ACTION_ACK, (msg) => {
+            pendingActions.delete(msg.seq);
+            // The server usually sends an ERROR with the cause first; keep it
+            if (!msg.accepted) {
+                lastError.value ??= `ACTION_REJECTED: Ação #${msg.seq} rejeitada no tick ${msg.tick}.`;
+            }
+        });
+
         client.on<S2CEntitySpawned>(S2CMessageType.ENTITY_SPAWNED, (msg) => {
             entityRegistry.set(msg.entity.id, msg.entity);
 
         });
 
+        client.on<S2CTowerActivated>(S2CMessageType.TOWER_ACTIVATED, (msg) => {
+            activatedTowers.add(msg.towerId);
+        });
+
+        client.on<S2CMatchPhase>(S2CMessageType.MATCH_PHASE, (msg) => {
+            matchPhase.value = msg;
+        });
+
+        client.on<S2CManaPhase>(S2CMessageType.MANA_PHASE, (msg) => {
+            mana.value.multiplier = msg.multiplier;
+            mana.value.max = msg.maxMana;
+        });
+
+        client.on<S2CSpellCast>(S2CMessageType.SPELL_CAST, (msg) => {
+            lastSpellCast.value = msg;
+        });
+
+        client.on<S2CSynergyUpdate>(S2CMessageType.SYNERGY_UPDATE, (msg) => {
+            activeSynergies.value = msg.synergies;
+        });
+
+        client.on<S2CMatchEnd>(S2CMessageType.MATCH_END, (msg) => {
+            matchResult.value = msg;
+        });
+
         client.on<S2CGameTick>(S2CMessageType.GAME_TICK, (msg) => {
             lastTick.value = msg.payload;
             if (matchData.value && player.value) {
@@ -118,7 +182,12 @@ export const useGameStore = defineStore('game', () => {
     }
 
     function spawnCard(cardIndex: number, x: number, y: number) {
-        GameClient.getInstance().spawnCard(cardIndex, x, y);
+        const seq = GameClient.getInstance().spawnCard(cardIndex, x, y);
+        pendingActions.set(seq, cardIndex);
+    }
+
+    function isCardPending(cardIndex: number) {
+        return [...pendingActions.values()].includes(cardIndex);
     }
 
     // Helpers for Deck
@@ -128,6 +197,8 @@ export const useGameStore = defineStore('game', () => {
 
     // Getters
     const myMana = computed(() => mana.value.current);
+    const maxMana = computed(() => mana.value.max);
+    const manaMultiplier = computed(() => mana.value.multiplier);
 
     const averageElixir = computed(() => {
         if (currentDeck.value.length === 0) return 0;
@@ -149,7 +220,16 @@ export const useGameStore = defineStore('game', () => {
         lastError,
         entityRegistry,
         lastTick,
+        activatedTowers,
+        matchPhase,
+        matchResult,
+        activeSynergies,
+        lastSpellCast,
+        hand,
+        nextCard,
         myMana,
+        maxMana,
+        manaMultiplier,
         collection,
         currentDeck,
         averageElixir,
@@ -157,6 +237,7 @@ export const useGameStore = defineStore('game', () => {
         login,
         findMatch,
         spawnCard,
+        isCardPending,
         setDeck
     };
 });
@@ -5,11 +5,20 @@
  * with automated card spawning and entity tracking.
  * 
  * Usage: npx tsx scripts/battle-simulation.ts [port]
+ *        npx tsx scripts/battle-simulation.ts --offline [seed]
+ *
+ * Offline mode runs a headless GameRoom in-process (no server, no timers):
+ * the whole match is stepped synchronously and finishes in milliseconds.
  */
 
 import WebSocket from 'ws';
+import { GameRoom } from '../src/core/game/game-room.js';
+import { createSeededRandom } from '../src/core/game/random.js';
+import { SimpleDB } from '../src/data/db.js';
+import type { CardConfig } from '@crom/shared';
 
-const PORT = process.argv[2] || '3000';
+const OFFLINE = process.argv[2] === '--offline';
+const PORT = OFFLINE ? '3000' : (process.argv[2] || '3000');
 const URL = `ws://localhost:${PORT}`;
 
 class AutoClient {
@@ -19,6 +28,7 @@ class AutoClient {
     public deckId: string = 'deck_sim';
     public matchId: string | null = null;
     public playerIndex: number = 0;
+    private actionSeq: number = 0;
 
     constructor(name: string) {
         this.name = name;
@@ -70,7 +80,10 @@ class AutoClient {
                 break;
 
             case 'MATCH_END':
-                console.log(`[${this.name}] Match finished. Winner: ${msg.winnerId}`);
+                console.log(
+                    `[${this.name}] Match finished. Winner: ${msg.winnerId ?? 'draw'} ` +
+                    `(${msg.crowns.player1} x ${msg.crowns.player2})`
+                );
                 process.exit(0);
                 break;
         }
@@ -87,6 +100,7 @@ class AutoClient {
 
                 this.ws.send(JSON.stringify({
                     type: 'SPAWN_CARD',
+                    seq: ++this.actionSeq,
                     cardIndex: cardIdx,
                     x: x,
                     y: z
@@ -97,27 +111,91 @@ class AutoClient {
     }
 }
 
-// Start sequence
-console.log("Starting Battle Simulation...");
-const p1 = new AutoClient("hero_1");
-
-setTimeout(() => {
-    const p2 = new AutoClient("hero_2");
-}, 500);
-
-// Global logger for entities via P1's connection
-p1.ws.on('message', (data: Buffer) => {
-    try {
-        const msg = JSON.parse(data.toString());
-        if (msg.type === 'GAME_TICK') {
-            const entities = msg.payload.entities;
-            if (entities.length > 0 && Math.random() < 0.05) { // Sample output
-                console.log(`\n--- Status Report (${entities.length} entities) ---`);
-                entities.forEach((e: any) => {
-                    console.log(`ID: ${e.id.substr(0, 4)} | Pos: (${e.x.toFixed(1)}, ${e.y.toFixed(1)})`);
-                });
-                console.log("----------------------------------\n");
+function startOnlineBattle() {
+    console.log("Starting Battle Simulation...");
+    const p1 = new AutoClient("hero_1");
+
+    setTimeout(() => {
+        new AutoClient("hero_2");
+    }, 500);
+
+    // Global logger for entities via P1's connection
+    p1.ws.on('message', (data: Buffer) => {
+        try {
+            const msg = JSON.parse(data.toString());
+            if (msg.type === 'GAME_TICK') {
+                const entities = msg.payload.entities;
+                if (entities.length > 0 && Math.random() < 0.05) { // Sample output
+                    console.log(`\n--- Status Report (${entities.length} entities) ---`);
+                    entities.forEach((e: any) => {
+                        console.log(`ID: ${e.id.substr(0, 4)} | Pos: (${e.x.toFixed(1)}, ${e.y.toFixed(1)})`);
+                    });
+                    console.log("----------------------------------\n");
+                }
             }
+        } catch { }
+    });
+}
+
+function loadDeckCards(playerId: string): CardConfig[] {
+    const deck = SimpleDB.getInstance().getDeck(playerId);
+    return (deck?.cards ?? []).map((id, index) => ({
+        slotIndex: index,
+        baseUnitId: id,
+        equippedItems: []
+    }));
+}
+
+function runOfflineBattle(seed: number) {
+    console.log(`Starting Offline Battle Simulation (seed ${seed})...`);
+    const startedAt = Date.now();
+    const aiRandom = createSeededRandom(seed ^ 0x5eed);
+
+    const room = new GameRoom('offline_room', {
+        verboseLogging: false,
+        headless: true,
+        seed,
+    });
+    room.addPlayer({ playerId: 'hero_1', deckId: 'deck_h1_default', deckCards: loadDeckCards('hero_1') }, 1);
+    room.addPlayer({ playerId: 'hero_2', deckId: 'deck_h2_default', deckCards: loadDeckCards('hero_2') }, 2);
+    room.start();
+
+    const seqs = { 1: 0, 2: 0 };
+    let spawns = 0;
+
+    // Simple AI: every second, play a random hand card if mana allows
+    while (room.getState().isRunning) {
+        for (const playerIndex of [1, 2] as const) {
+            const state = room.getState();
+            const mana = playerIndex === 1 ? state.mana.player1 : state.mana.player2;
+            if (mana < 4) continue;
+
+            const handSize = room.getHand(playerIndex).length;
+            const cardIdx = Math.floor(aiRandom() * handSize);
+            const x = 2 + aiRandom() * 26;
+            const y = playerIndex === 1 ? 2 + aiRandom() * 12 : 26 + aiRandom() * 12;
+
+            room.queueSpawnRequest(playerIndex, ++seqs[playerIndex], cardIdx, x, y);
+            spawns++;
         }
-    } catch { }
-});
+
+        room.step(20);
+    }
+
+    const result = room.getResult();
+    const stats = room.getCombatStats();
+    console.log("----------------------------------");
+    console.log(`Winner: ${result?.winnerId ?? 'draw'} (${result?.reason})`);
+    console.log(`Crowns: P1=${result?.crowns.player1} P2=${result?.crowns.player2}`);
+    console.log(`Ticks: ${result?.tick} | Spawn requests: ${spawns}`);
+    console.log(`Alive: P1=${stats.player1Alive} P2=${stats.player2Alive}`);
+    console.log(`Simulated in ${Date.now() - startedAt}ms`);
+    console.log("----------------------------------");
+}
+
+// Start sequence
+if (OFFLINE) {
+    runOfflineBattle(parseInt(process.argv[3] || '1', 10));
+} else {
+    startOnlineBattle();
+}
@@ -0,0 +1,113 @@
+/**
+ * Magic Royale - Spatial Index Benchmark
+ *
+ * Measures how the simulation scales with the number of entities:
+ * 1. Broadphase only: O(n²) pair loop vs SpatialHash (rebuild + overlapping pairs)
+ * 2. Full headless GameRoom ticks with hundreds of units on the field
+ *
+ * Usage: npx tsx scripts/spatial-benchmark.ts [ticks]
+ */
+
+import { GameRoom } from '../src/core/game/game-room.js';
+import { SpatialHash } from '../src/core/game/spatial-hash.js';
+import type { SpatialEntity } from '../src/core/game/spatial-hash.js';
+import { createSeededRandom } from '../src/core/game/random.js';
+
+const TICKS = parseInt(process.argv[2] || '100', 10);
+const SIZES = [100, 200, 400, 800];
+const BROADPHASE_REPEATS = 200;
+
+function scatter(count: number, seed: number): SpatialEntity[] {
+    const random = createSeededRandom(seed);
+    return Array.from({ length: count }, () => ({
+        position: { x: random() * 30, y: random() * 40 },
+        radius: 0.5,
+    }));
+}
+
+function bruteForcePairs(entities: SpatialEntity[]): number {
+    let pairs = 0;
+    for (let i = 0; i < entities.length; i++) {
+        for (let j = i + 1; j < entities.length; j++) {
+            const a = entities[i];
+            const b = entities[j];
+            const dx = b.position.x - a.position.x;
+            const dy = b.position.y - a.position.y;
+            const minDist = a.radius + b.radius;
+            if (dx * dx + dy * dy < minDist * minDist) pairs++;
+        }
+    }
+    return pairs;
+}
+
+/** Average time (ms) of `fn` over `repeats` runs */
+function time(repeats: number, fn: () => void): number {
+    const startedAt = performance.now();
+    for (let i = 0; i < repeats; i++) fn();
+    return (performance.now() - startedAt) / repeats;
+}
+
+function runBroadphase() {
+    console.log('Broadphase (collision pairs per call)');
+    console.log('  entities | brute force | spatial hash | pairs');
+
+    for (const size of SIZES) {
+        const entities = scatter(size, size);
+        const index = new SpatialHash<SpatialEntity>();
+
+        // Warm-up (JIT) before measuring
+        bruteForcePairs(entities);
+        index.rebuild(entities);
+        index.getOverlappingPairs();
+
+        let pairs = 0;
+        const brute = time(BROADPHASE_REPEATS, () => { pairs = bruteForcePairs(entities); });
+        const hashed = time(BROADPHASE_REPEATS, () => {
+            index.rebuild(entities);
+            index.getOverlappingPairs();
+        });
+
+        console.log(
+            `  ${String(size).padStart(8)} | ${brute.toFixed(3).padStart(9)}ms | ` +
+            `${hashed.toFixed(3).padStart(10)}ms | ${pairs}`
+        );
+    }
+}
+
+function runRoom() {
+    console.log(`GameRoom (${TICKS} ticks, units spread over both deploy zones)`);
+    console.log('  entities | ms/tick | budget used (50ms/tick)');
+
+    for (const size of SIZES) {
+        // Rooms and entities log setup and every state change: mute the console so only the simulation is measured
+        const log = console.log;
+        console.log = () => {};
+
+        const random = createSeededRandom(size);
+        const room = new GameRoom(`bench_${size}`, { verboseLogging: false, headless: true, seed: size });
+        room.addPlayer({ playerId: 'bench_1', deckId: 'deck', deckCards: [] }, 1);
+        room.addPlayer({ playerId: 'bench_2', deckId: 'deck', deckCards: [] }, 2);
+        room.start();
+
+        const unitIds = ['knight_base', 'archer_base', 'goblins_base', 'wyvern_base'];
+        for (let i = 0; i < size; i++) {
+            const playerIndex = i % 2 === 0 ? 1 : 2;
+            const x = 1 + random() * 28;
+            const y = playerIndex === 1 ? 1 + random() * 14 : 26 + random() * 13;
+            room.spawnUnit(playerIndex, unitIds[i % unitIds.length], x, y);
+        }
+
+        const perTick = time(1, () => room.step(TICKS)) / TICKS;
+        console.log = log;
+
+        const entities = room.getEntities().length;
+        console.log(
+            `  ${String(entities).padStart(8)} | ${perTick.toFixed(2).padStart(7)} | ` +
+            `${((perTick / 50) * 100).toFixed(1)}%`
+        );
+    }
+}
+
+runBroadphase();
+console.log('');
+runRoom();
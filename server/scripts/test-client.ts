@@ -120,6 +120,7 @@ function handleMatchStart(message: any): void {
         console.log('[Client] Enviando SPAWN_CARD...');
         ws.send(JSON.stringify({
             type: 'SPAWN_CARD',
+            seq: 1,
             cardIndex: 0,
             x: 15,
             y: 10,
@@ -157,7 +158,8 @@ function handleGameTick(message: any): void {
 function handleMatchEnd(message: any): void {
     console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log('🏁 PARTIDA ENCERRADA!\n');
-    console.log(`   🏆 Vencedor: ${message.winnerId}`);
+    console.log(`   🏆 Vencedor: ${message.winnerId ?? 'Empate'}`);
+    console.log(`   👑 Coroas: ${message.crowns.player1} x ${message.crowns.player2}`);
     console.log(`   📝 Motivo: ${message.reason}`);
     console.log(`   📊 Total de ticks recebidos: ${tickCount}`);
     console.log('');
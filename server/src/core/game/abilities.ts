@@ -0,0 +1,121 @@
+/**
+ * Magic Royale - Item Abilities
+ *
+ * Comportamentos de itens executados pelo pipeline de combate:
+ * roubo de vida, espinhos, acerto crítico, dano bônus por tag e escudo.
+ *
+ * @module core/game/abilities
+ */
+
+import { GameEntity, NO_ABILITIES } from './entity.js';
+import type { EntityAbilities } from './entity.js';
+import type { RandomFn } from './random.js';
+import { ItemAbilityType } from '../types/item.js';
+import type { ItemAbility } from '../types/item.js';
+
+/**
+ * Resultado da agregação das habilidades dos itens equipados.
+ */
+export interface AggregatedAbilities {
+    abilities: EntityAbilities;
+    /** Soma dos escudos */
+    shield: number;
+}
+
+/**
+ * Dano de um ataque após a rolagem de crítico.
+ */
+export interface AttackRoll {
+    damage: number;
+    critical: boolean;
+}
+
+/**
+ * Agrega as habilidades de todos os itens equipados.
+ * Frações e chances somam (chance limitada a 1); o crítico usa o maior multiplicador.
+ * @param itemAbilities Habilidades de todos os itens equipados
+ */
+export function aggregateAbilities(itemAbilities: ItemAbility[]): AggregatedAbilities {
+    const abilities: EntityAbilities = { ...NO_ABILITIES, tagBonuses: [] };
+    let shield = 0;
+
+    for (const ability of itemAbilities) {
+        switch (ability.type) {
+            case ItemAbilityType.LIFESTEAL:
+                abilities.lifesteal += ability.value;
+                break;
+            case ItemAbilityType.THORNS:
+                abilities.thorns += ability.value;
+                break;
+            case ItemAbilityType.CRITICAL:
+                abilities.critChance = Math.min(1, abilities.critChance + ability.value);
+                abilities.critMultiplier = Math.max(abilities.critMultiplier, ability.multiplier ?? 1);
+                break;
+            case ItemAbilityType.TAG_BONUS:
+                abilities.tagBonuses.push({ tags: ability.tags ?? [], bonus: ability.value });
+                break;
+            case ItemAbilityType.SHIELD:
+                shield += ability.value;
+                break;
+        }
+    }
+
+    return { abilities, shield };
+}
+
+/**
+ * Rola o dano de um ataque (crítico usa o RNG determinístico da sala).
+ * O RNG só é consumido por atacantes com chance de crítico.
+ * @param attacker Entidade atacante
+ * @param random Gerador determinístico
+ */
+export function rollAttackDamage(attacker: GameEntity, random: RandomFn): AttackRoll {
+    const { critChance, critMultiplier } = attacker.abilities;
+    const damage = attacker.getDamage();
+
+    if (critChance > 0 && random() < critChance) {
+        return { damage: damage * critMultiplier, critical: true };
+    }
+    return { damage, critical: false };
+}
+
+/**
+ * Multiplicador de dano contra um alvo, somando os bônus das tags que ele possui.
+ * @param attacker Entidade atacante
+ * @param target Alvo do ataque
+ */
+export function getTagMultiplier(attacker: GameEntity, target: GameEntity): number {
+    let multiplier = 1;
+    for (const { tags, bonus } of attacker.abilities.tagBonuses) {
+        if (tags.some((tag) => target.tags.includes(tag))) {
+            multiplier += bonus;
+        }
+    }
+    return multiplier;
+}
+
+/**
+ * Cura o atacante proporcionalmente à vida retirada do alvo.
+ * @param attacker Entidade atacante
+ * @param hpLost Vida efetivamente perdida pelo alvo (sem o escudo)
+ * @returns Vida recuperada
+ */
+export function applyLifesteal(attacker: GameEntity, hpLost: number): number {
+    if (attacker.abilities.lifesteal <= 0 || hpLost <= 0) return 0;
+    return attacker.heal(hpLost * attacker.abilities.lifesteal);
+}
+
+/**
+ * Reflete parte do dano corpo-a-corpo recebido pelo alvo no atacante.
+ * @param attacker Entidade atacante
+ * @param target Alvo que recebeu o golpe
+ * @param damage Dano do golpe
+ * @returns Dano refletido
+ */
+export function applyThorns(attacker: GameEntity, target: GameEntity, damage: number): number {
+    if (target.abilities.thorns <= 0 || !attacker.isAlive()) return 0;
+
+    const reflected = damage * target.abilities.thorns;
+    attacker.takeDamage(reflected);
+    return reflected;
+}
@@ -0,0 +1,129 @@
+/**
+ * Magic Royale - Building System
+ *
+ * Prédios posicionados por jogadores: construções fixas que perdem vida
+ * continuamente até desabar. Alguns atacam (canhão, pelo CombatSystem)
+ * e outros invocam tropas periodicamente (cabana).
+ *
+ * @module core/game/buildings
+ */
+
+import { GameEntity } from './entity.js';
+import type { BuildingState } from './entity.js';
+import type { Vector2D } from './physics.js';
+import type { BuildingDefinition } from '../types/building.js';
+
+/**
+ * Configuração do sistema de prédios.
+ */
+export interface BuildingConfig {
+    /** Se true, loga invocações e desabamentos no console */
+    logBuildings: boolean;
+    /** Distância entre tropas invocadas lado a lado */
+    spawnSpacing: number;
+}
+
+const DEFAULT_BUILDING_CONFIG: BuildingConfig = {
+    logBuildings: true,
+    spawnSpacing: 0.6,
+};
+
+/**
+ * Tropa que um prédio ou efeito de morte pediu para invocar (o spawn fica a cargo da sala).
+ */
+export interface SpawnRequest {
+    ownerId: 'player1' | 'player2';
+    unitId: string;
+    position: Vector2D;
+}
+
+/**
+ * Cria o estado inicial de um prédio recém-posicionado.
+ * A primeira invocação acontece após um intervalo completo.
+ * @param definition Definição do prédio no catálogo
+ * @param tickTime Tempo simulado atual em ms
+ */
+export function createBuildingState(definition: BuildingDefinition, tickTime: number): BuildingState {
+    const spawner = definition.spawner ?? null;
+    return {
+        buildingId: definition.buildingId,
+        decayPerSecond: definition.lifetime > 0 ? definition.baseStats.health / definition.lifetime : 0,
+        spawner,
+        nextSpawnAt: spawner ? tickTime + spawner.interval * 1000 : Infinity,
+    };
+}
+
+/**
+ * Sistema de prédios.
+ *
+ * Responsabilidades:
+ * - Aplicar o desgaste de vida (tempo de vida) a cada tick
+ * - Disparar as invocações periódicas dos geradores de tropas
+ */
+export class BuildingSystem {
+    private config: BuildingConfig;
+
+    constructor(config?: Partial<BuildingConfig>) {
+        this.config = { ...DEFAULT_BUILDING_CONFIG, ...config };
+    }
+
+    /**
+     * Atualiza todos os prédios vivos.
+     * @param entities Lista de todas as entidades
+     * @param tickTime Tempo simulado atual em ms
+     * @param deltaTime Timestep em segundos
+     * @param tick Número do tick atual (para logging)
+     * @returns Tropas a invocar neste tick
+     */
+    public update(
+        entities: GameEntity[],
+        tickTime: number,
+        deltaTime: number,
+        tick: number
+    ): SpawnRequest[] {
+        const requests: SpawnRequest[] = [];
+
+        for (const entity of entities) {
+            const building = entity.building;
+            if (!building || !entity.isAlive()) continue;
+
+            // Desgaste: ignora resistências, como o decaimento da morte súbita
+            if (entity.takeDamage(building.decayPerSecond * deltaTime)) {
+                if (this.config.logBuildings) {
+                    console.log(`[Tick ${tick}] 🏚️ ${entity.id} desabou`);
+                }
+                continue;
+            }
+
+            // Congelado ou atordoado: a invocação espera o efeito acabar
+            if (!building.spawner || tickTime < building.nextSpawnAt || entity.isDisabled(tickTime)) continue;
+
+            building.nextSpawnAt = tickTime + building.spawner.interval * 1000;
+            for (const position of this.getSpawnPositions(entity, building.spawner.count)) {
+                requests.push({ ownerId: entity.ownerId, unitId: building.spawner.unitId, position });
+            }
+
+            if (this.config.logBuildings) {
+                console.log(
+                    `[Tick ${tick}] 🛖 ${entity.id} invocou ${building.spawner.count}x ${building.spawner.unitId}`
+                );
+            }
+        }
+
+        return requests;
+    }
+
+    /**
+     * Posições das tropas invocadas: lado a lado, à frente do prédio (rumo ao inimigo).
+     */
+    private getSpawnPositions(entity: GameEntity, count: number): Vector2D[] {
+        const forward = entity.ownerId === 'player1' ? 1 : -1;
+        const y = entity.position.y + forward * (entity.radius + 0.5);
+        const startX = entity.position.x - ((count - 1) * this.config.spawnSpacing) / 2;
+
+        return Array.from({ length: count }, (_, i) => ({
+            x: startX + i * this.config.spawnSpacing,
+            y,
+        }));
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * Magic Royale - Game Clock
+ *
+ * Abstração do relógio usado para agendar o tick loop.
+ * A simulação nunca lê o relógio diretamente: o tempo simulado é
+ * derivado do número do tick e do timestep fixo (tick / tickRate).
+ * O relógio só decide QUANDO os ticks rodam, nunca O QUE acontece neles.
+ *
+ * @module core/game/clock
+ */
+
+/**
+ * Handle opaco retornado por GameClock.setInterval.
+ */
+export type ClockHandle = unknown;
+
+/**
+ * Relógio plugável do GameRoom.
+ * Implementações alternativas permitem testes com tempo falso.
+ */
+export interface GameClock {
+    /** Timestamp atual em ms */
+    now(): number;
+    /** Agenda um callback periódico */
+    setInterval(callback: () => void, intervalMs: number): ClockHandle;
+    /** Cancela um callback agendado */
+    clearInterval(handle: ClockHandle): void;
+}
+
+/**
+ * Relógio padrão baseado no relógio do sistema e timers do Node.
+ */
+export const systemClock: GameClock = {
+    now: () => Date.now(),
+    setInterval: (callback, intervalMs) => setInterval(callback, intervalMs),
+    clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+/**
+ * Converte um número de ticks em tempo simulado.
+ * @param ticks Número de ticks
+ * @param tickRate Ticks por segundo
+ * @returns Tempo simulado em ms
+ */
+export function ticksToMs(ticks: number, tickRate: number): number {
+    return (ticks * 1000) / tickRate;
+}
@@ -9,6 +9,18 @@
 
 import { GameEntity, EntityState } from './entity.js';
 import { getDistance } from './physics.js';
+import { ProjectileSystem } from './projectiles.js';
+import type { Projectile } from './projectiles.js';
+import { applySplashDamage } from './splash.js';
+import { applyStatusEffects } from './status-effects.js';
+import { rollAttackDamage, getTagMultiplier, applyLifesteal, applyThorns } from './abilities.js';
+import { computeDamage, getDamageSource } from './damage.js';
+import { createSeededRandom } from './random.js';
+import { SpatialHash } from './spatial-hash.js';
+import { TargetingPolicy } from '../types/unit.js';
+import type { RandomFn } from './random.js';
+import { DEFAULT_ARENA } from '../types/arena.js';
+import type { RiverDefinition } from '../types/arena.js';
 
 /**
  * Configuração do sistema de combate.
@@ -16,101 +28,177 @@ import { getDistance } from './physics.js';
 export interface CombatConfig {
     /** Se true, loga cada ataque no console */
     logAttacks: boolean;
+    /** Se true, o dano em área também atinge aliados do atacante */
+    splashFriendlyFire: boolean;
+    /** Gerador determinístico para acertos críticos (default: seed 0) */
+    random: RandomFn;
+    /** Índice espacial para a busca de alvos (pode ser compartilhado com a física) */
+    spatialIndex: SpatialHash<GameEntity>;
+    /** Rio da arena (mira dos projéteis em alvos terrestres) */
+    river: RiverDefinition | null;
 }
 
-const DEFAULT_COMBAT_CONFIG: CombatConfig = {
+const DEFAULT_COMBAT_CONFIG: Omit<CombatConfig, 'random' | 'spatialIndex'> = {
     logAttacks: true,
+    splashFriendlyFire: false,
+    river: DEFAULT_ARENA.river,
 };
 
 /**
  * Sistema de combate autoritativo.
  * 
  * Responsabilidades:
- * - Buscar alvo mais próximo para cada entidade
+ * - Buscar alvo de cada entidade conforme sua política (respeitando a regra ar/solo)
+ * - Torres disparam na unidade inimiga mais próxima dentro do alcance
  * - Verificar alcance e cooldown
- * - Aplicar dano
+ * - Aplicar dano (instantâneo no corpo-a-corpo, via projétil à distância)
+ * - Aplicar dano em área ao redor do impacto (splash)
+ * - Executar habilidades de itens (crítico, bônus por tag, roubo de vida, espinhos)
  */
 export class CombatSystem {
     private config: CombatConfig;
+    private projectileSystem: ProjectileSystem;
 
     constructor(config?: Partial<CombatConfig>) {
-        this.config = { ...DEFAULT_COMBAT_CONFIG, ...config };
+        this.config = {
+            ...DEFAULT_COMBAT_CONFIG,
+            random: createSeededRandom(0),
+            spatialIndex: new SpatialHash(),
+            ...config,
+        };
+        this.projectileSystem = new ProjectileSystem({
+            logHits: this.config.logAttacks,
+            splashFriendlyFire: this.config.splashFriendlyFire,
+            river: this.config.river,
+        });
     }
 
     /**
      * Atualiza o combate de todas as entidades.
      * @param entities Lista de todas as entidades vivas
-     * @param tickTime Timestamp atual em ms
+     * @param tickTime Tempo simulado atual em ms (derivado do tick)
      * @param tick Número do tick atual (para logging)
+     * @param deltaTime Timestep em segundos (movimento dos projéteis)
      */
-    public update(entities: GameEntity[], tickTime: number, tick: number): void {
-        // Separar entidades por dono
-        const player1Entities = entities.filter(
-            (e) => e.ownerId === 'player1' && e.isAlive()
-        );
-        const player2Entities = entities.filter(
-            (e) => e.ownerId === 'player2' && e.isAlive()
-        );
+    public update(entities: GameEntity[], tickTime: number, tick: number, deltaTime: number): void {
+        // Projéteis já disparados chegam antes dos novos ataques
+        this.projectileSystem.update(entities, deltaTime, tick, tickTime);
+
+        // Indexar as entidades vivas no início do tick (tropas são buscadas por raio)
+        const alive = entities.filter((e) => e.isAlive());
+        this.config.spatialIndex.rebuild(alive);
+
+        // Construções de cada dono (poucas: buscadas sem o índice, em qualquer distância)
+        const player1Structures = alive.filter((e) => e.ownerId === 'player1' && e.isStructure());
+        const player2Structures = alive.filter((e) => e.ownerId === 'player2' && e.isStructure());
 
         // Processar cada entidade
         for (const entity of entities) {
-            if (!entity.isAlive() || entity.isTower) continue;
+            if (!entity.isAlive() || !entity.isActive) continue;
 
-            // Identificar inimigos (unidades e torres)
-            const enemies = entity.ownerId === 'player1'
-                ? player2Entities
-                : player1Entities;
+            // Em deploy: já ocupa espaço e pode ser atacada, mas não se move nem ataca
+            if (entity.updateDeploy(tickTime)) {
+                entity.isMoving = false;
+                continue;
+            }
 
-            const oldTargetId = entity.targetId;
+            // Congelada ou atordoada: não se move nem ataca até o efeito acabar
+            if (entity.isDisabled(tickTime)) {
+                entity.isMoving = false;
+                continue;
+            }
 
-            // 1. PRIORIDADE: Buscar unidade inimiga mais próxima dentro do aggroRange (Aggro/Distração)
-            const enemyUnits = enemies.filter(e => !e.isTower);
-            let target = this.findNearestWithinRange(entity, enemyUnits, entity.stats.aggroRange);
+            // Torres e prédios são fixos: apenas defendem contra unidades dentro do alcance
+            if (entity.isStructure()) {
+                // Prédios sem ataque (geradores de tropas) não buscam alvo
+                if (entity.stats.damage <= 0) continue;
 
-            // 2. OBJETIVO: Se não houver unidades próximas, focar na torre inimiga mais próxima
-            if (!target) {
-                const enemyTowers = enemies.filter(e => e.isTower);
-                target = this.findNearestEnemy(entity, enemyTowers);
+                const target = this.findTowerTarget(entity);
+                this.updateAndAttack(entity, target, entities, tickTime, tick);
+                continue;
             }
 
+            // Construções inimigas atacáveis (torres e prédios no plano que a entidade alcança)
+            const enemyStructures = (entity.ownerId === 'player1' ? player2Structures : player1Structures)
+                .filter(e => entity.canTarget(e));
+
+            const oldTargetId = entity.targetId;
+            const target = this.findUnitTarget(entity, enemyStructures);
+
             // Log se o alvo mudou para algo que não seja a torre (Aggro detectado)
             if (target && target.id !== oldTargetId && !target.isTower && this.config.logAttacks) {
                 console.log(`[Tick ${tick}] 🎯 AGGRO: ${entity.id} mudou alvo para unidade ${target.id}`);
             }
 
 
-            // Atualizar estado FSM da entidade
-            entity.updateState(target, tickTime, tick);
+            this.updateAndAttack(entity, target, entities, tickTime, tick);
+        }
+    }
 
+    /**
+     * Verifica se `other` é uma unidade ou prédio inimigo (sem torres) que a entidade consegue atacar.
+     */
+    private isEnemyUnit(entity: GameEntity, other: GameEntity): boolean {
+        return other.ownerId !== entity.ownerId && !other.isTower && entity.canTarget(other);
+    }
 
-            // Se está atacando e pode atacar, aplicar dano
-            if (
-                entity.state === EntityState.ATTACKING &&
-                target &&
-                entity.canAttack(tickTime)
-            ) {
-                this.processAttack(entity, target, tickTime, tick);
-            }
-        }
+    /**
+     * Inimigos atacáveis (unidades e prédios, sem torres) com centro a até `radius` da entidade.
+     * @param entity Entidade buscando alvo
+     * @param radius Raio da busca
+     * @returns Inimigos na ordem da lista de entidades
+     */
+    private queryEnemyUnits(entity: GameEntity, radius: number): GameEntity[] {
+        return this.config.spatialIndex.queryRadius(entity.position, radius, (e) => this.isEnemyUnit(entity, e));
     }
 
     /**
-     * Encontra a entidade inimiga mais próxima dentro de um raio específico.
+     * Atualiza a FSM da entidade e aplica o ataque se possível.
      */
-    private findNearestWithinRange(
+    private updateAndAttack(
         entity: GameEntity,
-        enemies: GameEntity[],
-        range: number
-    ): GameEntity | null {
-        if (enemies.length === 0) return null;
+        target: GameEntity | null,
+        entities: GameEntity[],
+        tickTime: number,
+        tick: number
+    ): void {
+        // Atualizar estado FSM da entidade
+        entity.updateState(target, tickTime, tick);
+
+        // Se está atacando e pode atacar, aplicar dano
+        if (
+            entity.state === EntityState.ATTACKING &&
+            target &&
+            entity.canAttack(tickTime)
+        ) {
+            this.processAttack(entity, target, entities, tickTime, tick);
+        }
+    }
+
+    /**
+     * Escolhe o alvo de uma torre (ou prédio de defesa).
+     * A torre mantém o alvo atual enquanto ele estiver vivo e no alcance;
+     * caso contrário, trava na unidade inimiga mais próxima dentro do alcance.
+     * @param tower Torre buscando alvo
+     */
+    private findTowerTarget(tower: GameEntity): GameEntity | null {
+        // Alcance é medido entre as bordas: busca até o maior raio indexado
+        const reach = tower.stats.range + tower.radius + this.config.spatialIndex.getMaxRadius();
+        const enemyUnits = this.queryEnemyUnits(tower, reach);
+
+        const current = enemyUnits.find(e => e.id === tower.targetId);
+        if (current && tower.isInRange(current)) {
+            return current;
+        }
 
         let nearest: GameEntity | null = null;
-        let minDistance = range;
+        let minDistance = Infinity;
 
-        for (const enemy of enemies) {
-            // Unidades normais são alvos prioritários de aggro se estiverem no range
-            const dist = getDistance(entity.position, enemy.position);
-            if (dist <= minDistance) {
+        for (const enemy of enemyUnits) {
+            if (!tower.isInRange(enemy)) continue;
+
+            const dist = getDistance(tower.position, enemy.position);
+            if (dist < minDistance) {
                 minDistance = dist;
                 nearest = enemy;
             }
@@ -119,6 +207,82 @@ export class CombatSystem {
         return nearest;
     }
 
+    /**
+     * Escolhe o alvo de uma unidade conforme sua política de alvos.
+     * @param entity Unidade buscando alvo
+     * @param enemyStructures Torres e prédios inimigos vivos que a unidade consegue atacar
+     */
+    private findUnitTarget(entity: GameEntity, enemyStructures: GameEntity[]): GameEntity | null {
+        const enemyTowers = enemyStructures.filter(e => e.isTower);
+        const aggroRange = entity.stats.aggroRange;
+
+        let target: GameEntity | null;
+
+        switch (entity.targetingPolicy) {
+            // Ignoram tropas: vão direto para as construções
+            case TargetingPolicy.BUILDINGS:
+                return this.findNearestEnemy(entity, enemyStructures);
+
+            case TargetingPolicy.TOWERS:
+                return this.findNearestEnemy(entity, enemyTowers);
+
+            case TargetingPolicy.LOWEST_HP:
+                // Prédios inimigos também atraem aggro (como tropas no aggroRange)
+                target = this.findBestWithinRange(
+                    entity, this.queryEnemyUnits(entity, aggroRange), aggroRange, (e) => -e.stats.hp
+                );
+                break;
+
+            case TargetingPolicy.HIGHEST_DAMAGE:
+                target = this.findBestWithinRange(
+                    entity, this.queryEnemyUnits(entity, aggroRange), aggroRange, (e) => e.getDamage()
+                );
+                break;
+
+            case TargetingPolicy.NEAREST:
+            default:
+                // 1. PRIORIDADE: Buscar unidade inimiga mais próxima dentro do aggroRange (Aggro/Distração)
+                target = this.config.spatialIndex.findNearest(
+                    entity.position, aggroRange, (e) => this.isEnemyUnit(entity, e)
+                );
+                break;
+        }
+
+        // 2. OBJETIVO: Se não houver unidades próximas, focar na torre inimiga mais próxima
+        return target ?? this.findNearestEnemy(entity, enemyTowers);
+    }
+
+    /**
+     * Encontra a entidade de maior pontuação dentro de um raio (empate: a mais próxima).
+     * @param entity Entidade buscando alvo
+     * @param enemies Lista de inimigos vivos
+     * @param range Raio de busca
+     * @param score Pontuação de cada candidato (maior vence)
+     */
+    private findBestWithinRange(
+        entity: GameEntity,
+        enemies: GameEntity[],
+        range: number,
+        score: (enemy: GameEntity) => number
+    ): GameEntity | null {
+        let best: GameEntity | null = null;
+        let bestScore = -Infinity;
+        let bestDistance = Infinity;
+
+        for (const enemy of enemies) {
+            const dist = getDistance(entity.position, enemy.position);
+            if (dist > range) continue;
+
+            const value = score(enemy);
+            if (value > bestScore || (value === bestScore && dist < bestDistance)) {
+                best = enemy;
+                bestScore = value;
+                bestDistance = dist;
+            }
+        }
+
+        return best;
+    }
 
     /**
      * Encontra a entidade inimiga mais próxima.
@@ -152,36 +316,97 @@ export class CombatSystem {
      * Processa um ataque de uma entidade em outra.
      * @param attacker Entidade atacante
      * @param target Entidade alvo
-     * @param tickTime Timestamp atual
+     * @param entities Lista de todas as entidades (para o dano em área)
+     * @param tickTime Tempo simulado atual em ms
      * @param tick Número do tick
      */
     private processAttack(
         attacker: GameEntity,
         target: GameEntity,
+        entities: GameEntity[],
         tickTime: number,
         tick: number
     ): void {
-        const damage = attacker.stats.damage;
+        // Crítico é rolado no momento do ataque (mesmo à distância)
+        const roll = rollAttackDamage(attacker, this.config.random);
+
+        // Ataque à distância: o dano é aplicado quando o projétil chegar
+        if (attacker.stats.projectileSpeed > 0) {
+            const projectile = this.projectileSystem.launch(attacker, target, roll);
+            attacker.recordAttack(tickTime);
+
+            if (this.config.logAttacks) {
+                const crit = roll.critical ? ' (CRÍTICO)' : '';
+                console.log(`[Tick ${tick}] 🏹 ${attacker.id} disparou ${projectile.id} em ${target.id}${crit}`);
+            }
+            return;
+        }
+
+        const damage = computeDamage(
+            roll.damage * getTagMultiplier(attacker, target),
+            getDamageSource(attacker),
+            target
+        );
         const oldHp = target.stats.hp;
         const died = target.takeDamage(damage);
 
         // Registrar ataque (reseta cooldown)
         attacker.recordAttack(tickTime);
 
+        // Habilidades ao acertar: roubo de vida do atacante, espinhos do alvo
+        applyLifesteal(attacker, oldHp - target.stats.hp);
+        applyThorns(attacker, target, damage);
+
+        // Efeitos ao acertar (itens equipados)
+        if (!died) {
+            applyStatusEffects(target, attacker.onHitEffects, tickTime);
+        }
+
         if (this.config.logAttacks) {
             const status = died ? '💀 MORTO' : `HP: ${oldHp}→${target.stats.hp}`;
+            const crit = roll.critical ? ' (CRÍTICO)' : '';
             console.log(
                 `[Tick ${tick}] ⚔️ ${attacker.id} atacou ${target.id} | ` +
-                `Dano: ${damage} | ${status}`
+                `Dano: ${damage}${crit} | ${status}`
             );
         }
 
+        // Dano em área ao redor do alvo
+        if (attacker.stats.splashRadius > 0) {
+            const hits = applySplashDamage({
+                ownerId: attacker.ownerId,
+                sourceId: attacker.id,
+                primaryTargetId: target.id,
+                position: target.position,
+                damage: roll.damage,
+                source: getDamageSource(attacker),
+                targetLayers: attacker.targetLayers,
+                radius: attacker.stats.splashRadius,
+                falloff: attacker.stats.splashFalloff,
+                friendlyFire: this.config.splashFriendlyFire,
+            }, entities);
+
+            if (this.config.logAttacks && hits.length > 0) {
+                const summary = hits
+                    .map((hit) => `${hit.entity.id} -${hit.damage.toFixed(0)}${hit.died ? ' 💀' : ''}`)
+                    .join(', ');
+                console.log(`[Tick ${tick}] 💥 ${attacker.id} splash: ${summary}`);
+            }
+        }
+
         // Se o alvo morreu, limpar referência
         if (died) {
             attacker.setTarget(null);
         }
     }
 
+    /**
+     * Retorna os projéteis em voo.
+     */
+    public getProjectiles(): ReadonlyArray<Projectile> {
+        return this.projectileSystem.getProjectiles();
+    }
+
     /**
      * Retorna estatísticas de combate (para debug/UI).
      */
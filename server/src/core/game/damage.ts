@@ -0,0 +1,87 @@
+/**
+ * Magic Royale - Damage Resolution
+ *
+ * Converte o dano bruto de um ataque no dano recebido pelo alvo:
+ * multiplicadores por tag de afinidade e redução por armadura
+ * (dano físico) ou resistência mágica (dano mágico e de fogo).
+ *
+ * @module core/game/damage
+ */
+
+import { GameEntity } from './entity.js';
+import { DamageType } from '../types/damage.js';
+import type { TagDamageModifier } from '../types/damage.js';
+import type { AffinityTag } from '../types/tags.js';
+import { loadTagDamageModifiers } from '../../data/loader.js';
+
+/**
+ * Origem de um dano (atacante, projétil, feitiço, efeito contínuo).
+ */
+export interface DamageSource {
+    damageType: DamageType;
+    /** Tags de quem causou o dano (vazio para feitiços e efeitos) */
+    tags: AffinityTag[];
+}
+
+/**
+ * Fração do dano que passa pela resistência: 100 / (100 + resistência).
+ * @param resistance Armadura ou resistência mágica
+ */
+export function getMitigationMultiplier(resistance: number): number {
+    return 100 / (100 + Math.max(0, resistance));
+}
+
+/**
+ * Multiplicador da resistência do alvo ao tipo de dano.
+ * @param target Entidade que recebe o dano
+ * @param damageType Tipo do dano
+ */
+export function getResistanceMultiplier(target: GameEntity, damageType: DamageType): number {
+    const resistance = damageType === DamageType.PHYSICAL
+        ? target.stats.armor
+        : target.stats.magicResist;
+    return getMitigationMultiplier(resistance);
+}
+
+/**
+ * Produto dos multiplicadores por tag que se aplicam ao par origem/alvo.
+ * @param source Origem do dano
+ * @param target Entidade que recebe o dano
+ * @param modifiers Tabela de modificadores (default: catálogo compartilhado)
+ */
+export function getTagDamageMultiplier(
+    source: DamageSource,
+    target: GameEntity,
+    modifiers: TagDamageModifier[] = loadTagDamageModifiers()
+): number {
+    let multiplier = 1;
+
+    for (const modifier of modifiers) {
+        if (!target.tags.includes(modifier.targetTag)) continue;
+        if (modifier.sourceTag && !source.tags.includes(modifier.sourceTag)) continue;
+        if (modifier.damageType && modifier.damageType !== source.damageType) continue;
+
+        multiplier *= modifier.multiplier;
+    }
+
+    return multiplier;
+}
+
+/**
+ * Calcula o dano recebido pelo alvo a partir do dano bruto.
+ * @param amount Dano bruto
+ * @param source Origem do dano
+ * @param target Entidade que recebe o dano
+ */
+export function computeDamage(amount: number, source: DamageSource, target: GameEntity): number {
+    return amount
+        * getTagDamageMultiplier(source, target)
+        * getResistanceMultiplier(target, source.damageType);
+}
+
+/**
+ * Origem de dano de uma entidade atacante.
+ */
+export function getDamageSource(attacker: GameEntity): DamageSource {
+    return { damageType: attacker.stats.damageType, tags: attacker.tags };
+}
@@ -0,0 +1,68 @@
+/**
+ * Magic Royale - Death Effects
+ *
+ * Efeitos disparados quando uma unidade morre: explosão em área
+ * e invocação de novas unidades no ponto da morte.
+ *
+ * @module core/game/death-effects
+ */
+
+import { GameEntity } from './entity.js';
+import { applySplashDamage } from './splash.js';
+import type { SplashHit } from './splash.js';
+import { getFormationPositions } from './formation.js';
+import type { SpawnRequest } from './buildings.js';
+
+/** Distância entre as unidades invocadas na morte */
+const DEATH_SPAWN_SPACING = 0.6;
+
+/**
+ * Resultado do efeito de morte de uma entidade.
+ */
+export interface DeathEffectResult {
+    /** Entidades atingidas pela explosão */
+    hits: SplashHit[];
+    /** Unidades a invocar (o spawn fica a cargo da sala) */
+    spawns: SpawnRequest[];
+}
+
+/**
+ * Resolve o efeito de morte de uma entidade.
+ * A explosão segue as regras do splash (planos alcançados e fogo amigo).
+ * @param entity Entidade que morreu
+ * @param entities Lista de todas as entidades
+ * @param friendlyFire Se true, a explosão também atinge aliados
+ */
+export function applyDeathEffect(
+    entity: GameEntity,
+    entities: GameEntity[],
+    friendlyFire: boolean
+): DeathEffectResult {
+    const result: DeathEffectResult = { hits: [], spawns: [] };
+    const effect = entity.deathEffect;
+    if (!effect) return result;
+
+    if (effect.damage && effect.radius) {
+        result.hits = applySplashDamage({
+            ownerId: entity.ownerId,
+            sourceId: entity.id,
+            primaryTargetId: entity.id,
+            position: entity.position,
+            damage: effect.damage,
+            source: { damageType: effect.damageType ?? entity.stats.damageType, tags: entity.tags },
+            targetLayers: entity.targetLayers,
+            radius: effect.radius,
+            falloff: 0,
+            friendlyFire,
+        }, entities);
+    }
+
+    if (effect.spawn) {
+        const { unitId, count } = effect.spawn;
+        for (const position of getFormationPositions(entity.position, count, DEATH_SPAWN_SPACING)) {
+            result.spawns.push({ ownerId: entity.ownerId, unitId, position });
+        }
+    }
+
+    return result;
+}
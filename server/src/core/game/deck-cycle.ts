@@ -0,0 +1,109 @@
+/**
+ * Magic Royale - Deck Cycle
+ *
+ * Mantém o ciclo de cartas de um jogador durante a partida.
+ * O servidor é dono da ordem: mão de 4 cartas, uma "próxima" carta
+ * e uma fila onde as cartas jogadas voltam para o final.
+ *
+ * @module core/game/deck-cycle
+ */
+
+import type { CardConfig } from '../types/deck.js';
+
+/** Tamanho padrão da mão */
+export const DEFAULT_HAND_SIZE = 4;
+
+/**
+ * Gerencia a mão e a fila de cartas de um jogador.
+ *
+ * Fluxo:
+ * 1. O deck é embaralhado no início da partida
+ * 2. As primeiras N cartas formam a mão, o restante vira a fila
+ * 3. Ao jogar uma carta, ela vai para o final da fila e o slot
+ *    da mão recebe a carta do início da fila ("próxima")
+ */
+export class DeckCycle {
+    private hand: CardConfig[];
+    private queue: CardConfig[];
+
+    /**
+     * @param cards Cartas do deck do jogador
+     * @param handSize Quantidade de cartas na mão (default: 4)
+     * @param shuffle Se true, embaralha o deck antes de distribuir
+     * @param random Fonte de aleatoriedade [0, 1) usada no embaralhamento
+     */
+    constructor(
+        cards: CardConfig[],
+        handSize: number = DEFAULT_HAND_SIZE,
+        shuffle: boolean = true,
+        random: () => number = Math.random
+    ) {
+        const ordered = cards.map((card) => ({
+            ...card,
+            equippedItems: [...card.equippedItems],
+        }));
+
+        if (shuffle) {
+            shuffleInPlace(ordered, random);
+        }
+
+        this.hand = ordered.slice(0, handSize);
+        this.queue = ordered.slice(handSize);
+    }
+
+    /**
+     * Retorna as cartas atualmente na mão.
+     */
+    public getHand(): ReadonlyArray<CardConfig> {
+        return this.hand;
+    }
+
+    /**
+     * Retorna a próxima carta que entrará na mão (ou null se a fila estiver vazia).
+     */
+    public getNextCard(): CardConfig | null {
+        return this.queue[0] ?? null;
+    }
+
+    /**
+     * Retorna a carta em um slot da mão.
+     * @param handIndex Índice do slot na mão
+     */
+    public getCard(handIndex: number): CardConfig | null {
+        if (!this.isValidHandIndex(handIndex)) return null;
+        return this.hand[handIndex];
+    }
+
+    /**
+     * Verifica se o índice corresponde a um slot ocupado da mão.
+     * @param handIndex Índice do slot na mão
+     */
+    public isValidHandIndex(handIndex: number): boolean {
+        return Number.isInteger(handIndex) && handIndex >= 0 && handIndex < this.hand.length;
+    }
+
+    /**
+     * Joga a carta de um slot da mão e rotaciona o ciclo.
+     * @param handIndex Índice do slot na mão
+     * @returns A carta jogada ou null se o índice for inválido
+     */
+    public play(handIndex: number): CardConfig | null {
+        if (!this.isValidHandIndex(handIndex)) return null;
+
+        const played = this.hand[handIndex];
+        this.queue.push(played);
+        this.hand[handIndex] = this.queue.shift()!;
+
+        return played;
+    }
+}
+
+/**
+ * Embaralha um array in-place (Fisher-Yates).
+ */
+function shuffleInPlace<T>(items: T[], random: () => number): void {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+}
@@ -8,8 +8,15 @@
  */
 
 import { getDistance } from './physics.js';
-import { EntityState } from '@crom/shared';
-import type { Vector2D, EntitySnapshot } from '@crom/shared';
+import { EntityState, StatusEffectType, DamageType, MovementLayer, TargetingPolicy, PHYSICS } from '@crom/shared';
+import type {
+    Vector2D,
+    EntitySnapshot,
+    StatusEffectDefinition,
+    AffinityTag,
+    BuildingSpawner,
+    DeathEffect,
+} from '@crom/shared';
 export { EntityState };
 export type { Vector2D, EntitySnapshot };
 
@@ -37,6 +44,93 @@ export interface EntityStats {
     aggroRange: number;
     /** Velocidade de movimento (unidades por segundo) */
     moveSpeed: number;
+    /** Velocidade do projétil (unidades por segundo). 0 = ataque instantâneo */
+    projectileSpeed: number;
+    /** Raio do dano em área ao redor do impacto. 0 = alvo único */
+    splashRadius: number;
+    /** Fração do dano em área perdida na borda (0..1) */
+    splashFalloff: number;
+    /** Tipo do dano causado */
+    damageType: DamageType;
+    /** Reduz dano físico */
+    armor: number;
+    /** Reduz dano mágico e de fogo */
+    magicResist: number;
+}
+
+/**
+ * Efeito de status ativo em uma entidade.
+ * Cada tipo tem no máximo uma instância (ver regras de acúmulo em status-effects).
+ */
+export interface ActiveStatusEffect {
+    type: StatusEffectType;
+    /** Tempo simulado (ms) em que o efeito termina */
+    expiresAt: number;
+    /** BURN: dano por segundo por acúmulo. SLOW: fração de redução */
+    magnitude: number;
+    /** Acúmulos atuais (BURN) */
+    stacks: number;
+}
+
+/**
+ * Habilidades de itens agregadas de todos os equipamentos da entidade.
+ */
+export interface EntityAbilities {
+    /** Fração do dano causado convertida em cura */
+    lifesteal: number;
+    /** Fração do dano corpo-a-corpo recebido refletida no atacante */
+    thorns: number;
+    /** Chance de acerto crítico (0..1) */
+    critChance: number;
+    /** Multiplicador do dano crítico */
+    critMultiplier: number;
+    /** Dano bônus (fração) contra alvos com alguma das tags */
+    tagBonuses: { tags: AffinityTag[]; bonus: number }[];
+}
+
+/** Entidade sem habilidades de itens */
+export const NO_ABILITIES: EntityAbilities = {
+    lifesteal: 0,
+    thorns: 0,
+    critChance: 0,
+    critMultiplier: 1,
+    tagBonuses: [],
+};
+
+/**
+ * Bônus de sinergia recebidos pela entidade (recalculados a cada tick).
+ */
+export interface SynergyModifiers {
+    /** Dano bônus (fração) */
+    damage: number;
+    /** Velocidade de ataque bônus (fração) */
+    attackSpeed: number;
+    /** Velocidade de movimento bônus (fração) */
+    moveSpeed: number;
+    /** Redução do dano recebido (fração) */
+    damageReduction: number;
+}
+
+/** Entidade sem bônus de sinergia */
+export const NO_SYNERGY: SynergyModifiers = {
+    damage: 0,
+    attackSpeed: 0,
+    moveSpeed: 0,
+    damageReduction: 0,
+};
+
+
+/**
+ * Estado de um prédio posicionado por um jogador.
+ */
+export interface BuildingState {
+    buildingId: string;
+    /** Vida perdida por segundo (vida máxima / tempo de vida) */
+    decayPerSecond: number;
+    /** Gerador de tropas (null = prédio sem invocação) */
+    spawner: BuildingSpawner | null;
+    /** Tempo simulado (ms) da próxima invocação */
+    nextSpawnAt: number;
 }
 
 
@@ -50,7 +144,31 @@ export interface EntityConfig {
     position: Vector2D;
     stats: EntityStats;
     radius?: number;
+    /** Massa nas colisões (default: PHYSICS.DEFAULT_MASS) */
+    mass?: number;
     isTower?: boolean;
+    /** Se false, a entidade começa inativa (ex: torre do rei adormecida) */
+    isActive?: boolean;
+    /** Efeitos de status aplicados ao alvo a cada acerto (itens equipados) */
+    onHitEffects?: StatusEffectDefinition[];
+    /** Tags de afinidade da unidade base */
+    tags?: AffinityTag[];
+    /** Habilidades dos itens equipados */
+    abilities?: EntityAbilities;
+    /** Escudo inicial (absorve dano antes da vida) */
+    shield?: number;
+    /** Plano de movimento (default: GROUND) */
+    movementLayer?: MovementLayer;
+    /** Planos que a entidade consegue atacar (default: apenas GROUND) */
+    targetLayers?: MovementLayer[];
+    /** Escolha de alvo (default: NEAREST) */
+    targetingPolicy?: TargetingPolicy;
+    /** Presente apenas em prédios posicionados por jogadores */
+    building?: BuildingState;
+    /** Efeito disparado ao morrer */
+    deathEffect?: DeathEffect;
+    /** Se definido, a entidade começa em DEPLOYING até este tempo simulado (ms) */
+    deployUntil?: number;
 }
 
 
@@ -68,26 +186,56 @@ export class GameEntity {
     public readonly id: string;
     public readonly ownerId: 'player1' | 'player2';
     public readonly unitId: string;
+    public readonly tags: AffinityTag[];
 
     // ========== Física ==========
     public position: Vector2D;
     public readonly radius: number;
+    /** Mais pesada = menos empurrada nas colisões */
+    public readonly mass: number;
+    public readonly movementLayer: MovementLayer;
 
     // ========== Stats ==========
     public stats: EntityStats;
     public readonly isTower: boolean;
+    /** Prédio posicionado por jogador (fixo, com tempo de vida) */
+    public readonly isBuilding: boolean;
+    public readonly building: BuildingState | null;
+    /** Entidades inativas não buscam alvos nem atacam */
+    public isActive: boolean;
+    /** Efeitos aplicados ao alvo a cada acerto */
+    public readonly onHitEffects: StatusEffectDefinition[];
+    /** Habilidades dos itens equipados */
+    public readonly abilities: EntityAbilities;
+    /** Escudo restante (absorve dano antes da vida) */
+    public shield: number;
+    /** Bônus de sinergia ativos */
+    public synergy: SynergyModifiers;
+    /** Planos que a entidade consegue atacar */
+    public readonly targetLayers: MovementLayer[];
+    /** Escolha de alvo */
+    public readonly targetingPolicy: TargetingPolicy;
+    /** Efeito disparado ao morrer (null = nenhum) */
+    public readonly deathEffect: DeathEffect | null;
 
 
     // ========== Estado FSM ==========
     public state: EntityState;
     public targetId: string | null;
     public targetPosition: Vector2D | null;
+    /** Distância do alvo em que a física para a entidade (alcance + raios) */
+    public arriveDistance: number;
 
     // ========== Timing ==========
+    /** Fim do deploy em ms (entidade em DEPLOYING até lá) */
+    public readonly deployUntil: number;
     public lastAttackTime: number;
     public isMoving: boolean;
     public moveSpeed: number; // Exposto para PhysicsSystem
 
+    // ========== Efeitos de Status ==========
+    public statusEffects: Map<StatusEffectType, ActiveStatusEffect>;
+
     // ========== Logging ==========
     private lastLoggedState: EntityState | null = null;
 
@@ -95,26 +243,51 @@ export class GameEntity {
         this.id = config.id;
         this.ownerId = config.ownerId;
         this.unitId = config.unitId;
+        this.tags = config.tags ?? [];
         this.position = { ...config.position };
-        this.radius = config.radius ?? 0.5;
+        this.radius = config.radius ?? PHYSICS.COLLISION_RADIUS;
+        this.mass = config.mass ?? PHYSICS.DEFAULT_MASS;
+        this.movementLayer = config.movementLayer ?? MovementLayer.GROUND;
         this.stats = { ...config.stats };
         this.isTower = config.isTower ?? false;
-
-        this.state = EntityState.IDLE;
+        this.building = config.building ?? null;
+        this.isBuilding = this.building !== null;
+        this.isActive = config.isActive ?? true;
+        this.onHitEffects = config.onHitEffects ?? [];
+        this.abilities = config.abilities ?? NO_ABILITIES;
+        this.shield = config.shield ?? 0;
+        this.synergy = NO_SYNERGY;
+        this.targetLayers = config.targetLayers ?? [MovementLayer.GROUND];
+        this.targetingPolicy = config.targetingPolicy ?? TargetingPolicy.NEAREST;
+        this.deathEffect = config.deathEffect ?? null;
+
+        this.deployUntil = config.deployUntil ?? -Infinity;
+        this.state = config.deployUntil !== undefined ? EntityState.DEPLOYING : EntityState.IDLE;
         this.targetId = null;
         this.targetPosition = null;
-        this.lastAttackTime = 0;
+        this.arriveDistance = 0;
+        this.lastAttackTime = -Infinity;
         this.isMoving = false;
-        this.moveSpeed = this.isTower ? 0 : this.stats.moveSpeed;
+        this.moveSpeed = this.isStructure() ? 0 : this.stats.moveSpeed;
+        this.statusEffects = new Map();
     }
 
 
     /**
-     * Aplica dano à entidade.
+     * Aplica dano à entidade. A redução de sinergia vale primeiro,
+     * depois o escudo absorve o dano antes da vida.
      * @param amount Quantidade de dano
      * @returns true se a entidade morreu
      */
     public takeDamage(amount: number): boolean {
+        amount *= 1 - this.synergy.damageReduction;
+
+        if (this.shield > 0) {
+            const absorbed = Math.min(this.shield, amount);
+            this.shield -= absorbed;
+            amount -= absorbed;
+        }
+
         this.stats.hp -= amount;
 
         if (this.stats.hp <= 0) {
@@ -129,6 +302,104 @@ export class GameEntity {
         return false;
     }
 
+    /**
+     * Cura a entidade, sem ultrapassar a vida máxima.
+     * @param amount Quantidade de cura
+     * @returns Vida efetivamente recuperada
+     */
+    public heal(amount: number): number {
+        if (!this.isAlive()) return 0;
+
+        const before = this.stats.hp;
+        this.stats.hp = Math.min(this.stats.maxHp, this.stats.hp + amount);
+        return this.stats.hp - before;
+    }
+
+    /**
+     * Verifica se um efeito de status está ativo.
+     * @param type Tipo do efeito
+     * @param currentTime Tempo simulado atual em ms
+     */
+    public hasStatusEffect(type: StatusEffectType, currentTime: number): boolean {
+        const effect = this.statusEffects.get(type);
+        return effect !== undefined && currentTime < effect.expiresAt;
+    }
+
+    /**
+     * Verifica se a entidade está congelada.
+     * @param currentTime Tempo simulado atual em ms
+     */
+    public isFrozen(currentTime: number): boolean {
+        return this.hasStatusEffect(StatusEffectType.FREEZE, currentTime);
+    }
+
+    /**
+     * Verifica se a entidade está impedida de agir (congelada ou atordoada).
+     * @param currentTime Tempo simulado atual em ms
+     */
+    public isDisabled(currentTime: number): boolean {
+        return this.isFrozen(currentTime) || this.hasStatusEffect(StatusEffectType.STUN, currentTime);
+    }
+
+    /**
+     * Verifica se a entidade ainda está em deploy, concluindo-o quando o prazo vence.
+     * @param currentTime Tempo simulado atual em ms
+     */
+    public updateDeploy(currentTime: number): boolean {
+        if (this.state !== EntityState.DEPLOYING) return false;
+        if (currentTime < this.deployUntil) return true;
+
+        this.state = EntityState.IDLE;
+        return false;
+    }
+
+    /**
+     * Fator aplicado às velocidades de movimento e ataque (1 = sem lentidão).
+     * @param currentTime Tempo simulado atual em ms
+     */
+    public getSlowFactor(currentTime: number): number {
+        if (!this.hasStatusEffect(StatusEffectType.SLOW, currentTime)) return 1;
+        return 1 - this.statusEffects.get(StatusEffectType.SLOW)!.magnitude;
+    }
+
+    /**
+     * Velocidade de movimento atual, com lentidão e bônus de sinergia.
+     * @param currentTime Tempo simulado atual em ms
+     */
+    public getMoveSpeed(currentTime: number): number {
+        if (this.isStructure()) return 0;
+        return this.stats.moveSpeed * this.getSlowFactor(currentTime) * (1 + this.synergy.moveSpeed);
+    }
+
+    /**
+     * Dano por ataque atual, com bônus de sinergia.
+     */
+    public getDamage(): number {
+        return this.stats.damage * (1 + this.synergy.damage);
+    }
+
+    /**
+     * Verifica se a entidade é uma construção fixa (torre ou prédio).
+     */
+    public isStructure(): boolean {
+        return this.isTower || this.isBuilding;
+    }
+
+    /**
+     * Verifica se a entidade voa (ignora colisões com o solo).
+     */
+    public isFlying(): boolean {
+        return this.movementLayer === MovementLayer.AIR;
+    }
+
+    /**
+     * Verifica se a entidade consegue atacar o alvo (regra ar/solo).
+     * @param target Possível alvo
+     */
+    public canTarget(target: GameEntity): boolean {
+        return this.targetLayers.includes(target.movementLayer);
+    }
+
     /**
      * Verifica se a entidade está viva.
      */
@@ -136,14 +407,27 @@ export class GameEntity {
         return this.state !== EntityState.DEAD && this.stats.hp > 0;
     }
 
+    /**
+     * Ativa a entidade (ex: torre do rei desperta).
+     * @returns true se a entidade estava inativa
+     */
+    public activate(): boolean {
+        if (this.isActive) return false;
+        this.isActive = true;
+        return true;
+    }
+
     /**
      * Verifica se a entidade pode atacar (cooldown expirado).
-     * @param currentTime Timestamp atual em ms
+     * @param currentTime Tempo simulado atual em ms
      */
     public canAttack(currentTime: number): boolean {
         if (!this.isAlive()) return false;
 
-        const cooldownMs = (1 / this.stats.attackSpeed) * 1000;
+        const attackSpeed = this.stats.attackSpeed
+            * this.getSlowFactor(currentTime)
+            * (1 + this.synergy.attackSpeed);
+        const cooldownMs = (1 / attackSpeed) * 1000;
         return currentTime - this.lastAttackTime >= cooldownMs;
     }
 
@@ -155,6 +439,7 @@ export class GameEntity {
         if (target) {
             this.targetId = target.id;
             this.targetPosition = { ...target.position };
+            this.arriveDistance = this.getArriveDistance(target);
             this.state = EntityState.MOVING;
             this.isMoving = true;
         } else {
@@ -186,11 +471,19 @@ export class GameEntity {
         return effectiveDistance <= this.stats.range;
     }
 
+    /**
+     * Distância entre centros a partir da qual o alvo está no alcance de ataque.
+     * @param target Entidade alvo
+     */
+    public getArriveDistance(target: GameEntity): number {
+        return this.stats.range + this.radius + target.radius;
+    }
+
     /**
      * Atualiza o estado da entidade baseado no alvo.
      * Implementa a FSM: MOVING → ATTACKING → COOLDOWN
      * @param target Entidade alvo (ou null)
-     * @param tickTime Timestamp atual
+     * @param tickTime Tempo simulado atual em ms
      * @param tick Número do tick (para logging)
      */
     public updateState(target: GameEntity | null, tickTime: number, tick: number): void {
@@ -214,7 +507,7 @@ export class GameEntity {
             this.targetId = target.id;
         }
         this.targetPosition = { ...target.position };
-
+        this.arriveDistance = this.getArriveDistance(target);
 
         const inRange = this.isInRange(target);
         const canAttack = this.canAttack(tickTime);
@@ -263,7 +556,7 @@ export class GameEntity {
 
     /**
      * Registra ataque realizado.
-     * @param tickTime Timestamp do ataque
+     * @param tickTime Tempo simulado do ataque em ms
      */
     public recordAttack(tickTime: number): void {
         this.lastAttackTime = tickTime;
@@ -0,0 +1,41 @@
+/**
+ * Magic Royale - Formations
+ *
+ * Posições de cartas que colocam várias unidades de uma vez
+ * (ex: exército de esqueletos) ao redor do ponto de deploy.
+ *
+ * @module core/game/formation
+ */
+
+import type { Vector2D } from './physics.js';
+
+/**
+ * Distribui `count` posições em anéis concêntricos ao redor do centro.
+ * O anel k (k ≥ 1) tem raio k × spacing e comporta até 6k unidades;
+ * o centro recebe a primeira unidade.
+ * @param center Ponto de deploy
+ * @param count Número de unidades
+ * @param spacing Distância entre anéis (unidades do grid)
+ * @returns Posições na ordem de spawn (determinística)
+ */
+export function getFormationPositions(center: Vector2D, count: number, spacing: number): Vector2D[] {
+    const positions: Vector2D[] = [];
+    if (count <= 0) return positions;
+
+    positions.push({ ...center });
+
+    for (let ring = 1; positions.length < count; ring++) {
+        const slots = Math.min(6 * ring, count - positions.length);
+        const radius = ring * spacing;
+
+        for (let i = 0; i < slots; i++) {
+            const angle = (2 * Math.PI * i) / slots;
+            positions.push({
+                x: center.x + Math.cos(angle) * radius,
+                y: center.y + Math.sin(angle) * radius,
+            });
+        }
+    }
+
+    return positions;
+}
@@ -10,28 +10,64 @@
  */
 
 import { PhysicsSystem } from './physics.js';
+import { SpatialHash } from './spatial-hash.js';
 import type { Vector2D } from './physics.js';
 import { GameEntity, createEntity } from './entity.js';
 import type { EntityStats, EntitySnapshot } from './entity.js';
 
 import { CombatSystem, CombatStats } from './combat.js';
-import { getUnitById, getItemById } from '../../data/loader.js';
-import { calculateCardCostByIds } from '../validation/deck-validator.js';
-import type { UnitBaseStats } from '../types/unit.js';
-import type { ItemStatsModifier } from '../types/item.js';
-import type { PlayerDeck, CardConfig } from '../types/deck.js';
+import { SpellSystem } from './spells.js';
+import { StatusEffectSystem } from './status-effects.js';
+import { aggregateAbilities } from './abilities.js';
+import { SynergySystem } from './synergies.js';
+import { BuildingSystem, createBuildingState } from './buildings.js';
+import { getFormationPositions } from './formation.js';
+import { applyDeathEffect } from './death-effects.js';
+import type { ActiveSynergies } from './synergies.js';
+import type { Projectile } from './projectiles.js';
+import { DeckCycle, DEFAULT_HAND_SIZE } from './deck-cycle.js';
+import { systemClock, ticksToMs } from './clock.js';
+import type { GameClock, ClockHandle } from './clock.js';
+import { createSeededRandom, generateSeed } from './random.js';
+import type { RandomFn } from './random.js';
+import {
+    getUnitById,
+    getItemById,
+    getTowerById,
+    getSpellById,
+    getBuildingById,
+    getCardKind,
+} from '../../data/loader.js';
+import { calculateCardCostByIds, calculateEffectiveStatsByIds } from '../validation/deck-validator.js';
+import type { ItemAbility } from '../types/item.js';
+import type { StatusEffectDefinition } from '../types/status-effect.js';
+import type { CardConfig } from '../types/deck.js';
+import { TowerRole } from '../types/tower.js';
+import { CardKind } from '../types/spell.js';
+import { DamageType } from '../types/damage.js';
+import { MovementLayer, getUnitTargetLayers, getUnitDeployTime, getUnitCollisionRadius } from '../types/unit.js';
+import type { SpellDefinition } from '../types/spell.js';
+import type { BuildingDefinition } from '../types/building.js';
+import { DEFAULT_ARENA, getArenaBounds, isInsideZone } from '../types/arena.js';
+import type { ArenaDefinition } from '../types/arena.js';
 
 import {
     S2CMessageType,
     ErrorCode,
+    TowerActivationReason,
+    MatchPhase,
+    MatchOutcome,
     stateToCode,
 } from '../net/protocol.js';
 import type {
     S2CMessage,
     EntityDelta,
     TowerDelta,
+    ProjectileDelta,
     GameTickPayload,
     EntitySpawnData,
+    HandCardData,
+    CrownCount,
 } from '../net/protocol.js';
 
 
@@ -39,22 +75,38 @@ import type {
 // CONSTANTES DE ANTI-CHEAT
 // ============================================
 
-/** Zona de deploy do Player 1 (inferior): Y de 0 a 15 */
-const DEPLOY_ZONE_P1 = { minY: 0, maxY: 15 };
-/** Zona de deploy do Player 2 (superior): Y de 25 a 40 */
-const DEPLOY_ZONE_P2 = { minY: 25, maxY: 40 };
-/** Limites do mapa em X */
-const MAP_BOUNDS_X = { min: 0, max: 30 };
+/** Máximo de ações pendentes por jogador entre dois ticks */
+const MAX_PENDING_ACTIONS_PER_PLAYER = 8;
+
+/** Máximo de ticks executados de uma vez para recuperar atraso do relógio */
+const MAX_CATCH_UP_TICKS = 5;
+
+/** Coroas concedidas ao destruir uma torre lateral */
+const SIDE_TOWER_CROWNS = 1;
+/** Coroas concedidas ao destruir o core (vitória imediata) */
+const CORE_TOWER_CROWNS = 3;
+/** Máximo de coroas por jogador */
+const MAX_CROWNS = 3;
+
+/** Duração da mana dupla no fim do tempo regular (segundos) */
+const DOUBLE_MANA_WINDOW = 60;
 
 /**
- * Estado de uma torre.
+ * Estado de uma torre durante a partida.
+ * Mantido pela sala mesmo após a torre ser destruída e removida das entidades.
  */
 export interface TowerState {
     id: string;
-    ownerId: string;
+    ownerId: 'player1' | 'player2';
+    /** ID da torre no catálogo (tower_small, tower_core) */
+    towerId: string;
+    role: TowerRole;
     position: Vector2D;
     health: number;
     maxHealth: number;
+    /** false enquanto a torre do rei estiver adormecida */
+    isActive: boolean;
+    isDestroyed: boolean;
 }
 
 /**
@@ -63,13 +115,81 @@ export interface TowerState {
 export interface GameState {
     tick: number;
     mana: { player1: number; player2: number };
+    /** Multiplicador atual da regeneração de mana */
+    manaMultiplier: number;
     entities: EntitySnapshot[];
-    entities: EntitySnapshot[];
+    /** Timestamp (relógio da sala) em que a partida começou. Apenas informativo. */
     startTime: number;
+    /** Seed do gerador aleatório da partida (para replays) */
+    seed: number;
+    /** Fase atual da partida */
+    phase: MatchPhase;
+    /** Coroas conquistadas por jogador */
+    crowns: CrownCount;
+    /** Sinergias de afinidade ativas por jogador */
+    synergies: ActiveSynergies;
     isRunning: boolean;
 }
 
 
+/**
+ * Mensagem emitida pela sala, registrada no modo headless.
+ */
+export interface RoomEvent {
+    /** Tick em que a mensagem foi emitida (0 = antes do primeiro tick) */
+    tick: number;
+    /** Destinatário: todos os jogadores ou um jogador específico */
+    target: 'all' | 1 | 2;
+    message: S2CMessage;
+}
+
+/**
+ * Resultado de uma execução manual de ticks (modo headless).
+ */
+export interface StepResult {
+    /** Quantidade de ticks efetivamente executados */
+    ticksRun: number;
+    /** Mensagens emitidas desde a última leitura do log (inclui as de start() antes do primeiro step) */
+    events: RoomEvent[];
+    /** Estado após o último tick */
+    state: Readonly<GameState>;
+}
+
+/**
+ * Resultado final de uma partida.
+ */
+export interface MatchResult {
+    /** null em caso de empate */
+    winnerId: string | null;
+    outcome: MatchOutcome;
+    crowns: CrownCount;
+    reason: string;
+    /** Tick em que a partida terminou */
+    tick: number;
+}
+
+/**
+ * Fase de mana na linha do tempo da partida.
+ */
+export interface ManaPhaseConfig {
+    /** Segundo (tempo simulado) em que a fase começa */
+    startsAtSecond: number;
+    /** Multiplicador aplicado a manaRegenRate a partir deste ponto */
+    multiplier: number;
+}
+
+/**
+ * Ação de um jogador aguardando a fase de inputs do próximo tick.
+ */
+export interface QueuedAction {
+    playerIndex: 1 | 2;
+    /** Número de sequência enviado pelo cliente */
+    seq: number;
+    cardIndex: number;
+    x: number;
+    y: number;
+}
+
 /**
  * Conexão de um jogador.
  */
@@ -92,7 +212,7 @@ export type SendToPlayerFn = (playerIndex: 1 | 2, message: S2CMessage) => void;
 /**
  * Callback para fim de jogo.
  */
-export type OnGameEndFn = (winnerId: string, reason: string) => void;
+export type OnGameEndFn = (result: MatchResult) => void;
 
 /**
  * Configuração do GameRoom.
@@ -100,14 +220,44 @@ export type OnGameEndFn = (winnerId: string, reason: string) => void;
 export interface GameRoomConfig {
     /** Taxa de ticks por segundo (default: 20) */
     tickRate?: number;
-    /** Duração máxima da partida em segundos (default: 180) */
+    /** Duração do tempo regular em segundos (default: 180) */
     maxDuration?: number;
+    /** Duração da prorrogação em segundos, 0 para desativar (default: 60) */
+    overtimeDuration?: number;
+    /** Duração da morte súbita em segundos, 0 para desativar (default: 60) */
+    suddenDeathDuration?: number;
+    /** Fração da vida máxima que cada torre perde por segundo na morte súbita, até 1 de vida (default: 0.02) */
+    suddenDeathTowerDecay?: number;
     /** Mana inicial por jogador */
     initialMana?: number;
     /** Taxa de regeneração de mana por segundo */
     manaRegenRate?: number;
+    /** Mana máxima acumulada por jogador (default: 10) */
+    maxMana?: number;
+    /**
+     * Fases de mana da partida (default: x2 no último minuto do tempo
+     * regular e x3 a partir da prorrogação)
+     */
+    manaPhases?: ManaPhaseConfig[];
+    /** Se true, o dano em área (splash) também atinge aliados (default: false) */
+    splashFriendlyFire?: boolean;
+    /** Mapa da partida: tamanho, torres, zonas de deploy e rio (default: DEFAULT_ARENA) */
+    arena?: ArenaDefinition;
     /** Se true, loga detalhes de combate */
     verboseLogging?: boolean;
+    /** Quantidade de cartas na mão de cada jogador (default: 4) */
+    handSize?: number;
+    /** Se true, embaralha o deck de cada jogador no início (default: true) */
+    shuffleDecks?: boolean;
+    /** Relógio usado para agendar os ticks (default: relógio do sistema) */
+    clock?: GameClock;
+    /** Seed da aleatoriedade da simulação (default: gerada na criação) */
+    seed?: number;
+    /**
+     * Se true, start() não agenda timers: a simulação avança apenas via
+     * step()/runUntil() e as mensagens emitidas ficam registradas (default: false)
+     */
+    headless?: boolean;
     /** Callback para broadcast de mensagens (WebSocket) */
     broadcastFn?: BroadcastFn;
     /** Callback para enviar mensagem a um jogador específico */
@@ -116,14 +266,41 @@ export interface GameRoomConfig {
     onGameEnd?: OnGameEndFn;
 }
 
-const DEFAULT_CONFIG: Required<Omit<GameRoomConfig, 'broadcastFn' | 'sendToPlayerFn' | 'onGameEnd'>> = {
+type ResolvedGameRoomConfig = Required<
+    Omit<GameRoomConfig, 'broadcastFn' | 'sendToPlayerFn' | 'onGameEnd' | 'clock' | 'seed'>
+>;
+
+const DEFAULT_CONFIG: Omit<ResolvedGameRoomConfig, 'manaPhases'> = {
     tickRate: 20,
     maxDuration: 180,
+    overtimeDuration: 60,
+    suddenDeathDuration: 60,
+    suddenDeathTowerDecay: 0.02,
     initialMana: 5,
     manaRegenRate: 1,
+    maxMana: 10,
+    splashFriendlyFire: false,
+    arena: DEFAULT_ARENA,
     verboseLogging: true,
+    handSize: DEFAULT_HAND_SIZE,
+    shuffleDecks: true,
+    headless: false,
 };
 
+/**
+ * Fases de mana padrão, relativas à duração do tempo regular.
+ * @param maxDuration Duração do tempo regular em segundos
+ */
+function createDefaultManaPhases(maxDuration: number): ManaPhaseConfig[] {
+    return [
+        { startsAtSecond: Math.max(0, maxDuration - DOUBLE_MANA_WINDOW), multiplier: 2 },
+        { startsAtSecond: maxDuration, multiplier: 3 },
+    ];
+}
+
+/** Limite padrão de ticks para runUntil() (10 minutos a 20Hz) */
+const DEFAULT_RUN_UNTIL_MAX_TICKS = 12000;
+
 /**
  * Classe que gerencia uma sala de jogo (partida 1v1).
  * 
@@ -139,9 +316,18 @@ export class GameRoom {
     private player1: PlayerConnection | null = null;
     private player2: PlayerConnection | null = null;
     private gameState: GameState;
-    private config: Required<Omit<GameRoomConfig, 'broadcastFn' | 'sendToPlayerFn' | 'onGameEnd'>>;
-    private tickInterval: ReturnType<typeof setInterval> | null = null;
-    private tickDuration: number; // ms entre ticks
+    private config: ResolvedGameRoomConfig;
+    private tickInterval: ClockHandle | null = null;
+    private tickDuration: number; // ms entre ticks (timestep fixo)
+
+    // ========== Determinismo ==========
+    private clock: GameClock;
+    private loopStartTime: number = 0;
+    private random: RandomFn;
+
+    // ========== Modo Headless ==========
+    private eventLog: RoomEvent[] = [];
+    private matchResult: MatchResult | null = null;
 
     // ========== FASE 3: WebSocket ==========
     private broadcastFn: BroadcastFn | null = null;
@@ -151,28 +337,68 @@ export class GameRoom {
     // ========== Sistemas de Jogo ==========
     private physicsSystem: PhysicsSystem;
     private combatSystem: CombatSystem;
+    private spellSystem: SpellSystem;
+    private statusEffectSystem: StatusEffectSystem;
+    private synergySystem: SynergySystem;
+    private buildingSystem: BuildingSystem;
     private entities: GameEntity[];
     private entityCounter: number;
 
+    // Estado das torres (sobrevive à remoção das entidades mortas)
+    private towers: Map<string, TowerState> = new Map();
+
+    // ========== Ciclo de Cartas ==========
+    private deckCycles: Map<1 | 2, DeckCycle> = new Map();
+
+    // ========== Fila de Ações ==========
+    private actionQueue: QueuedAction[] = [];
+    private lastActionSeq: Map<1 | 2, number> = new Map();
+
     constructor(roomId: string, config?: GameRoomConfig) {
         this.roomId = roomId;
-        const { broadcastFn, sendToPlayerFn, onGameEnd, ...restConfig } = config || {};
-        this.config = { ...DEFAULT_CONFIG, ...restConfig };
+        const { broadcastFn, sendToPlayerFn, onGameEnd, clock, seed, ...restConfig } = config || {};
+        const maxDuration = restConfig.maxDuration ?? DEFAULT_CONFIG.maxDuration;
+        this.config = {
+            ...DEFAULT_CONFIG,
+            ...restConfig,
+            manaPhases: restConfig.manaPhases ?? createDefaultManaPhases(maxDuration),
+        };
         this.tickDuration = 1000 / this.config.tickRate; // 50ms para 20Hz
 
+        // Relógio e aleatoriedade determinística
+        this.clock = clock ?? systemClock;
+        const matchSeed = seed ?? generateSeed();
+        this.random = createSeededRandom(matchSeed);
+
         // Callbacks WebSocket
         this.broadcastFn = broadcastFn ?? null;
         this.sendToPlayerFn = sendToPlayerFn ?? null;
         this.onGameEnd = onGameEnd ?? null;
 
         // Inicializar sistemas
-        this.physicsSystem = new PhysicsSystem();
-        this.combatSystem = new CombatSystem({ logAttacks: this.config.verboseLogging });
+        // Física e combate compartilham o índice espacial (reconstruído por cada um no tick)
+        const spatialIndex = new SpatialHash<GameEntity>();
+        this.physicsSystem = new PhysicsSystem({
+            spatialIndex,
+            bounds: getArenaBounds(this.config.arena),
+            river: this.config.arena.river,
+        });
+        this.combatSystem = new CombatSystem({
+            logAttacks: this.config.verboseLogging,
+            splashFriendlyFire: this.config.splashFriendlyFire,
+            random: this.random,
+            spatialIndex,
+            river: this.config.arena.river,
+        });
+        this.spellSystem = new SpellSystem({ logCasts: this.config.verboseLogging });
+        this.statusEffectSystem = new StatusEffectSystem({ logEffects: this.config.verboseLogging });
+        this.synergySystem = new SynergySystem();
+        this.buildingSystem = new BuildingSystem({ logBuildings: this.config.verboseLogging });
         this.entities = [];
         this.entityCounter = 0;
 
         // Inicializar estado do jogo
-        this.gameState = this.createInitialState();
+        this.gameState = this.createInitialState(matchSeed);
 
         // Inicializar torres como entidades
         const towers = this.createInitialTowers();
@@ -184,52 +410,77 @@ export class GameRoom {
     /**
      * Cria o estado inicial do jogo.
      */
-    private createInitialState(): GameState {
+    private createInitialState(seed: number): GameState {
         return {
             tick: 0,
             mana: {
-                player1: this.config.initialMana,
                 player1: this.config.initialMana,
                 player2: this.config.initialMana,
             },
+            manaMultiplier: 1,
             entities: [],
             startTime: 0,
+            seed,
+            phase: MatchPhase.REGULAR,
+            crowns: { player1: 0, player2: 0 },
+            synergies: { player1: [], player2: [] },
             isRunning: false,
         };
     }
 
     /**
      * Cria as torres iniciais como GameEntity.
+     * Posições vêm da arena; stats vêm do catálogo de torres.
      */
     private createInitialTowers(): GameEntity[] {
-        const towerConfigs = [
-            // Torres do Player 1 (inferior)
-            { id: 't1_left', ownerId: 'player1' as const, position: { x: 5, y: 5 }, hp: 2500, radius: 1.5, type: 'tower_small' },
-            { id: 't1_right', ownerId: 'player1' as const, position: { x: 25, y: 5 }, hp: 2500, radius: 1.5, type: 'tower_small' },
-            { id: 't1_core', ownerId: 'player1' as const, position: { x: 15, y: 2 }, hp: 4000, radius: 2.0, type: 'tower_core' },
-            // Torres do Player 2 (superior)
-            { id: 't2_left', ownerId: 'player2' as const, position: { x: 5, y: 35 }, hp: 2500, radius: 1.5, type: 'tower_small' },
-            { id: 't2_right', ownerId: 'player2' as const, position: { x: 25, y: 35 }, hp: 2500, radius: 1.5, type: 'tower_small' },
-            { id: 't2_core', ownerId: 'player2' as const, position: { x: 15, y: 38 }, hp: 4000, radius: 2.0, type: 'tower_core' },
-        ];
-
-        return towerConfigs.map(cfg => createEntity({
-            id: cfg.id,
-            ownerId: cfg.ownerId,
-            unitId: cfg.type,
-            position: cfg.position,
-            isTower: true,
-            stats: {
-                hp: cfg.hp,
-                maxHp: cfg.hp,
-                damage: 0, // Torres ainda não atacam por enquanto (foco no movimento dos pés)
-                attackSpeed: 0,
-                range: 0,
-                aggroRange: 0,
-                moveSpeed: 0
-            },
-            radius: cfg.radius
-        }));
+        return this.config.arena.towers.map(cfg => {
+            const tower = getTowerById(cfg.towerId);
+            if (!tower) {
+                throw new Error(`Torre não encontrada no catálogo: ${cfg.towerId}`);
+            }
+
+            const { health, damage, attackSpeed, range, radius, projectileSpeed } = tower.baseStats;
+            const isActive = !tower.startsDormant;
+
+            this.towers.set(cfg.id, {
+                id: cfg.id,
+                ownerId: cfg.ownerId,
+                towerId: tower.towerId,
+                role: tower.role,
+                position: { ...cfg.position },
+                health,
+                maxHealth: health,
+                isActive,
+                isDestroyed: false,
+            });
+
+            return createEntity({
+                id: cfg.id,
+                ownerId: cfg.ownerId,
+                unitId: cfg.towerId,
+                position: cfg.position,
+                isTower: true,
+                isActive,
+                stats: {
+                    hp: health,
+                    maxHp: health,
+                    damage,
+                    attackSpeed,
+                    range,
+                    aggroRange: range, // Torres só enxergam o que conseguem atingir
+                    moveSpeed: 0,
+                    projectileSpeed: projectileSpeed ?? 0,
+                    splashRadius: 0,
+                    splashFalloff: 0,
+                    damageType: DamageType.PHYSICAL,
+                    armor: 0,
+                    magicResist: 0
+                },
+                // Torres defendem contra unidades terrestres e aéreas
+                targetLayers: [MovementLayer.GROUND, MovementLayer.AIR],
+                radius
+            });
+        });
     }
 
 
@@ -239,17 +490,31 @@ export class GameRoom {
     public addPlayer(player: PlayerConnection, slot: 1 | 2): boolean {
         if (slot === 1 && !this.player1) {
             this.player1 = player;
+            this.deckCycles.set(1, this.createDeckCycle(player));
             console.log(`[GameRoom ${this.roomId}] Player1 conectado: ${player.playerId}`);
             return true;
         }
         if (slot === 2 && !this.player2) {
             this.player2 = player;
+            this.deckCycles.set(2, this.createDeckCycle(player));
             console.log(`[GameRoom ${this.roomId}] Player2 conectado: ${player.playerId}`);
             return true;
         }
         return false;
     }
 
+    /**
+     * Cria o ciclo de cartas (mão + fila) de um jogador.
+     */
+    private createDeckCycle(player: PlayerConnection): DeckCycle {
+        return new DeckCycle(
+            player.deckCards,
+            this.config.handSize,
+            this.config.shuffleDecks,
+            this.random
+        );
+    }
+
     /**
      * Verifica se a sala está pronta para iniciar.
      */
@@ -259,6 +524,8 @@ export class GameRoom {
 
     /**
      * Inicia o game loop.
+     * No modo headless, apenas marca a partida como iniciada;
+     * os ticks são executados manualmente via step()/runUntil().
      */
     public start(): void {
         if (this.gameState.isRunning) {
@@ -269,37 +536,154 @@ export class GameRoom {
         console.log(`[GameRoom ${this.roomId}] 🎮 Iniciando partida a ${this.config.tickRate}Hz...`);
 
         this.gameState.isRunning = true;
-        this.gameState.startTime = Date.now();
+        this.gameState.startTime = this.clock.now();
 
         // Broadcast torres iniciais para o cliente renderizar
         this.entities.filter(e => e.isTower).forEach(tower => {
             this.broadcastTowerSpawned(tower);
         });
 
+        // Enviar mão inicial para cada jogador
+        this.sendHandUpdate(1);
+        this.sendHandUpdate(2);
 
-        // Iniciar tick loop
-        this.tickInterval = setInterval(() => {
-            this.tick();
+        this.broadcastMatchPhase();
+        this.broadcastManaPhase();
+
+
+        if (this.config.headless) return;
+
+        // Iniciar tick loop (timestep fixo)
+        this.loopStartTime = this.clock.now();
+        this.tickInterval = this.clock.setInterval(() => {
+            this.runDueTicks();
         }, this.tickDuration);
     }
 
     /**
-     * Faz broadcast de uma torre como se fosse uma entidade para reaproveitamento no renderer.
+     * Executa os ticks devidos segundo o relógio.
+     *
+     * O relógio apenas decide quantos ticks já deveriam ter rodado; cada tick
+     * avança a simulação exatamente um timestep. Se o host atrasar (GC, carga),
+     * os ticks perdidos são recuperados sem alterar o resultado da simulação.
      */
+    private runDueTicks(): void {
+        const elapsed = this.clock.now() - this.loopStartTime;
+        const dueTicks = Math.floor(elapsed / this.tickDuration);
+
+        let executed = 0;
+        while (
+            this.gameState.isRunning &&
+            this.gameState.tick < dueTicks &&
+            executed < MAX_CATCH_UP_TICKS
+        ) {
+            this.tick();
+            executed++;
+        }
 
-    private broadcastTowerSpawned(tower: GameEntity): void {
-        if (!this.broadcastFn) return;
+        // Atraso grande demais: descartar o backlog em vez de acumular
+        if (this.gameState.tick < dueTicks) {
+            this.loopStartTime = this.clock.now() - this.gameState.tick * this.tickDuration;
+        }
+    }
+
+    // ============================================
+    // MODO HEADLESS (testes e simulação offline)
+    // ============================================
+
+    /**
+     * Executa ticks de forma síncrona, sem timers.
+     * Para antes se a partida terminar. As mensagens retornadas saem do log,
+     * que não cresce entre chamadas.
+     *
+     * @param ticks Quantidade de ticks a executar (default: 1)
+     * @returns Ticks executados, mensagens emitidas e estado final
+     */
+    public step(ticks: number = 1): StepResult {
+        this.assertHeadless('step');
+
+        let ticksRun = 0;
+
+        while (ticksRun < ticks && this.gameState.isRunning) {
+            this.tick();
+            ticksRun++;
+        }
+
+        return {
+            ticksRun,
+            events: this.drainEvents(),
+            state: this.gameState,
+        };
+    }
+
+    /**
+     * Executa ticks até o predicado ser satisfeito, a partida terminar
+     * ou o limite de ticks ser atingido.
+     *
+     * @param predicate Condição de parada, avaliada após cada tick
+     * @param maxTicks Limite de segurança de ticks
+     * @returns Resultado da execução e se o predicado foi satisfeito
+     */
+    public runUntil(
+        predicate: (room: GameRoom) => boolean,
+        maxTicks: number = DEFAULT_RUN_UNTIL_MAX_TICKS
+    ): StepResult & { satisfied: boolean } {
+        this.assertHeadless('runUntil');
+
+        let ticksRun = 0;
+        let satisfied = predicate(this);
+
+        while (!satisfied && ticksRun < maxTicks && this.gameState.isRunning) {
+            this.tick();
+            ticksRun++;
+            satisfied = predicate(this);
+        }
 
+        return {
+            ticksRun,
+            events: this.drainEvents(),
+            state: this.gameState,
+            satisfied,
+        };
+    }
+
+    /**
+     * Retorna e limpa as mensagens registradas no modo headless.
+     */
+    public drainEvents(): RoomEvent[] {
+        const events = this.eventLog;
+        this.eventLog = [];
+        return events;
+    }
+
+    /**
+     * Garante que a sala está no modo headless e em execução.
+     */
+    private assertHeadless(method: string): void {
+        if (!this.config.headless) {
+            throw new Error(`[GameRoom ${this.roomId}] ${method}() requer a sala em modo headless.`);
+        }
+        if (!this.gameState.isRunning && !this.matchResult) {
+            throw new Error(`[GameRoom ${this.roomId}] ${method}() chamado antes de start().`);
+        }
+    }
+
+    /**
+     * Faz broadcast de uma torre como se fosse uma entidade para reaproveitamento no renderer.
+     */
+    private broadcastTowerSpawned(tower: GameEntity): void {
         const spawnData: EntitySpawnData = {
             id: tower.id,
             ownerId: tower.ownerId,
             unitId: tower.unitId,
             maxHp: tower.stats.maxHp,
             position: { ...tower.position },
+            radius: tower.radius,
+            isTower: true,
+            isActive: tower.isActive,
         };
 
-
-        this.broadcastFn({
+        this.broadcast({
             type: S2CMessageType.ENTITY_SPAWNED,
             entity: spawnData,
         });
@@ -317,9 +701,10 @@ export class GameRoom {
         console.log(`[GameRoom ${this.roomId}] 🛑 Parando partida: ${reason}`);
 
         this.gameState.isRunning = false;
+        this.actionQueue = [];
 
-        if (this.tickInterval) {
-            clearInterval(this.tickInterval);
+        if (this.tickInterval !== null) {
+            this.clock.clearInterval(this.tickInterval);
             this.tickInterval = null;
         }
 
@@ -360,8 +745,13 @@ export class GameRoom {
             return null;
         }
 
-        // Calcular stats finais
-        const finalStats = this.calculateFinalStats(unit.baseStats, equippedItems);
+        // Calcular stats finais e habilidades dos itens
+        const final = this.calculateFinalStats(unit.unitId, equippedItems);
+        if (!final) {
+            console.error(`[GameRoom ${this.roomId}] Item inválido em ${unitId}: [${equippedItems.join(', ')}]`);
+            return null;
+        }
+        const { abilities, shield } = aggregateAbilities(this.collectItemAbilities(equippedItems));
 
         // Gerar ID único
         this.entityCounter++;
@@ -373,8 +763,18 @@ export class GameRoom {
             ownerId: playerIndex === 1 ? 'player1' : 'player2',
             unitId: unitId,
             position: { x, y },
-            stats: finalStats,
-            radius: 0.5, // Raio padrão
+            stats: final.stats,
+            radius: getUnitCollisionRadius(unit),
+            mass: final.mass,
+            onHitEffects: this.collectOnHitEffects(equippedItems),
+            tags: unit.tags,
+            abilities,
+            shield,
+            movementLayer: unit.movementLayer,
+            targetLayers: getUnitTargetLayers(unit),
+            targetingPolicy: unit.targetingPolicy,
+            deathEffect: unit.deathEffect,
+            deployUntil: this.getSimulationTime() + getUnitDeployTime(unit) * 1000,
         });
 
 
@@ -384,7 +784,7 @@ export class GameRoom {
             console.log(
                 `[GameRoom ${this.roomId}] ✨ Spawn: ${entityId} | ` +
                 `Owner: player${playerIndex} | Pos: (${x}, ${y}) | ` +
-                `HP: ${finalStats.maxHp} | DMG: ${finalStats.damage}`
+                `HP: ${final.stats.maxHp} | DMG: ${final.stats.damage}`
             );
         }
 
@@ -395,74 +795,203 @@ export class GameRoom {
     }
 
     /**
-     * Faz broadcast de entidade spawnada para os clientes.
+     * Spawna todas as unidades de uma carta ao redor do ponto de deploy.
+     * Cartas sem formação criam uma única unidade; os itens valem para cada cópia.
+     *
+     * @param playerIndex 1 ou 2
+     * @param unitId ID da unidade base do catálogo
+     * @param x Posição X do ponto de deploy
+     * @param y Posição Y do ponto de deploy
+     * @param equippedItems Lista de IDs de itens equipados
+     * @returns Entidades criadas (vazio se falhar)
      */
-    private broadcastEntitySpawned(entity: GameEntity): void {
-        console.log(`[GameRoom] 📡 Tentando broadcast de SPWN: ${entity.id}`);
+    public spawnFormation(
+        playerIndex: 1 | 2,
+        unitId: string,
+        x: number,
+        y: number,
+        equippedItems: string[] = []
+    ): GameEntity[] {
+        const formation = getUnitById(unitId)?.formation;
+        const positions = formation
+            ? getFormationPositions({ x, y }, formation.count, formation.spacing)
+            : [{ x, y }];
+
+        const spawned: GameEntity[] = [];
+        for (const position of positions) {
+            const entity = this.spawnUnit(playerIndex, unitId, position.x, position.y, equippedItems);
+            if (!entity) break;
+            spawned.push(entity);
+        }
+        return spawned;
+    }
 
-        if (!this.broadcastFn) {
-            console.error(`[GameRoom] ❌ broadcastFn é NULL!`);
-            return;
+    /**
+     * Posiciona um prédio na arena.
+     * Prédios são fixos, perdem vida até desabar e não recebem itens.
+     *
+     * @param playerIndex 1 ou 2
+     * @param building Definição do prédio
+     * @param x Posição X
+     * @param y Posição Y
+     * @returns A entidade criada
+     */
+    public spawnBuilding(playerIndex: 1 | 2, building: BuildingDefinition, x: number, y: number): GameEntity {
+        const { health, damage, attackSpeed, range, radius, projectileSpeed } = building.baseStats;
+
+        this.entityCounter++;
+        const entityId = `${building.buildingId}_${this.entityCounter}`;
+
+        const entity = createEntity({
+            id: entityId,
+            ownerId: playerIndex === 1 ? 'player1' : 'player2',
+            unitId: building.buildingId,
+            position: { x, y },
+            stats: {
+                hp: health,
+                maxHp: health,
+                damage,
+                attackSpeed,
+                range,
+                aggroRange: range, // Como torres, só enxergam o que conseguem atingir
+                moveSpeed: 0,
+                projectileSpeed: projectileSpeed ?? 0,
+                splashRadius: 0,
+                splashFalloff: 0,
+                damageType: building.baseStats.damageType ?? DamageType.PHYSICAL,
+                armor: building.baseStats.armor ?? 0,
+                magicResist: building.baseStats.magicResist ?? 0,
+            },
+            radius,
+            tags: building.tags,
+            targetLayers: building.canTargetAir
+                ? [MovementLayer.GROUND, MovementLayer.AIR]
+                : [MovementLayer.GROUND],
+            building: createBuildingState(building, this.getSimulationTime()),
+        });
+
+        this.entities.push(entity);
+
+        if (this.config.verboseLogging) {
+            console.log(
+                `[GameRoom ${this.roomId}] 🏗️ Prédio: ${entityId} | ` +
+                `Owner: player${playerIndex} | Pos: (${x}, ${y}) | Vida útil: ${building.lifetime}s`
+            );
         }
 
+        this.broadcastEntitySpawned(entity);
+
+        return entity;
+    }
+
+    /**
+     * Conjura um feitiço em um ponto do mapa.
+     * O efeito é resolvido imediatamente, na fase de inputs do tick.
+     *
+     * @param playerIndex 1 ou 2
+     * @param spell Definição do feitiço
+     * @param x Posição X do centro da área
+     * @param y Posição Y do centro da área
+     * @returns true (feitiços sempre são conjurados, mesmo sem alvos)
+     */
+    public castSpell(playerIndex: 1 | 2, spell: SpellDefinition, x: number, y: number): boolean {
+        const ownerId = playerIndex === 1 ? 'player1' : 'player2';
+        const position = { x, y };
+
+        const result = this.spellSystem.cast(
+            spell,
+            ownerId,
+            position,
+            this.entities,
+            this.getSimulationTime(),
+            this.gameState.tick
+        );
+
+        this.broadcast({
+            type: S2CMessageType.SPELL_CAST,
+            spellId: spell.spellId,
+            ownerId,
+            position,
+            radius: spell.radius,
+            affected: result.affected,
+        });
+
+        return true;
+    }
+
+    /**
+     * Faz broadcast de entidade spawnada para os clientes.
+     */
+    private broadcastEntitySpawned(entity: GameEntity): void {
         const spawnData: EntitySpawnData = {
             id: entity.id,
             ownerId: entity.ownerId,
             unitId: entity.unitId,
             maxHp: entity.stats.maxHp,
             position: { ...entity.position },
+            radius: entity.radius,
+            movementLayer: entity.movementLayer,
         };
+        if (entity.isBuilding) {
+            spawnData.isBuilding = true;
+        }
 
-        console.log(`[GameRoom] 📤 Enviando ENTITY_SPAWNED:`, JSON.stringify(spawnData));
+        if (this.config.verboseLogging) {
+            console.log(`[GameRoom] 📤 Enviando ENTITY_SPAWNED:`, JSON.stringify(spawnData));
+        }
 
-        this.broadcastFn({
+        this.broadcast({
             type: S2CMessageType.ENTITY_SPAWNED,
             entity: spawnData,
         });
     }
 
     /**
-     * Calcula os stats finais somando stats base com modificadores de itens.
-     * @param baseStats Stats base da unidade
+     * Reúne os efeitos de status aplicados ao acertar, de todos os itens equipados.
      * @param equippedItems IDs dos itens equipados
-     * @returns EntityStats finais
      */
-    private calculateFinalStats(
-        baseStats: UnitBaseStats,
-        equippedItems: string[]
-    ): EntityStats {
-        // Começar com stats base
-        let health = baseStats.health;
-        let damage = baseStats.damage;
-        let attackSpeed = baseStats.attackSpeed;
-        let range = baseStats.range;
-        let aggroRange = baseStats.aggroRange;
-        let moveSpeed = baseStats.moveSpeed;
-
-
-        // Somar modificadores de cada item
+    private collectOnHitEffects(equippedItems: string[]): StatusEffectDefinition[] {
+        const effects: StatusEffectDefinition[] = [];
         for (const itemId of equippedItems) {
             const item = getItemById(itemId);
-            if (!item) continue;
+            if (item?.onHitEffects) {
+                effects.push(...item.onHitEffects);
+            }
+        }
+        return effects;
+    }
 
-            const mod: ItemStatsModifier = item.statsModifier;
-            health += mod.health ?? 0;
-            damage += mod.damage ?? 0;
-            attackSpeed += mod.attackSpeed ?? 0;
-            range += mod.range ?? 0;
-            moveSpeed += mod.moveSpeed ?? 0;
+    /**
+     * Reúne as habilidades de todos os itens equipados.
+     * @param equippedItems IDs dos itens equipados
+     */
+    private collectItemAbilities(equippedItems: string[]): ItemAbility[] {
+        const abilities: ItemAbility[] = [];
+        for (const itemId of equippedItems) {
+            const item = getItemById(itemId);
+            if (item?.abilities) {
+                abilities.push(...item.abilities);
+            }
         }
+        return abilities;
+    }
 
-        // Garantir valores mínimos
-        return {
-            hp: Math.max(1, health),
-            maxHp: Math.max(1, health),
-            damage: Math.max(1, damage),
-            attackSpeed: Math.max(0.1, attackSpeed),
-            range: Math.max(0.5, range),
-            aggroRange: Math.max(1.0, aggroRange),
-            moveSpeed: Math.max(0.5, moveSpeed),
-        };
+    /**
+     * Converte os stats efetivos da carta nos stats da entidade.
+     * A massa fica fora dos stats: é usada só pela física.
+     * @param unitId ID da unidade
+     * @param equippedItems IDs dos itens equipados
+     * @returns EntityStats finais e massa, ou null se algum ID for inválido
+     */
+    private calculateFinalStats(
+        unitId: string,
+        equippedItems: string[]
+    ): { stats: EntityStats; mass: number } | null {
+        const effective = calculateEffectiveStatsByIds(unitId, equippedItems);
+        if (!effective) return null;
+
+        const { health, mass, ...rest } = effective;
+        return { stats: { hp: health, maxHp: health, ...rest }, mass };
     }
 
 
@@ -476,14 +1005,13 @@ export class GameRoom {
      */
     private tick(): void {
         this.gameState.tick++;
-        const tickTime = Date.now();
-        const deltaTime = this.tickDuration / 1000; // Em segundos
+        const tickTime = this.getSimulationTime(); // Tempo simulado em ms
+        const deltaTime = this.tickDuration / 1000; // Timestep fixo em segundos
 
         // --------------------------------------------
-        // FASE 1: Processar Inputs (Placeholder)
+        // FASE 1: Processar Inputs (fila de ações)
         // --------------------------------------------
-        // TODO: Processar ações na fila (spawn de unidades via WebSocket)
-        // this.processPlayerActions();
+        this.processPlayerActions();
 
         // --------------------------------------------
         // FASE 2: Atualizar Mana
@@ -493,7 +1021,10 @@ export class GameRoom {
         // --------------------------------------------
         // FASE 3: Combate (antes da física para definir alvos)
         // --------------------------------------------
-        this.combatSystem.update(this.entities, tickTime, this.gameState.tick);
+        this.updateBuildings(tickTime, deltaTime);
+        this.updateSynergies();
+        this.statusEffectSystem.update(this.entities, tickTime, deltaTime, this.gameState.tick);
+        this.combatSystem.update(this.entities, tickTime, this.gameState.tick, deltaTime);
 
         // --------------------------------------------
         // FASE 4: Movimento & Física
@@ -501,28 +1032,37 @@ export class GameRoom {
         this.physicsSystem.update(this.entities, deltaTime);
 
         // --------------------------------------------
-        // FASE 5: Limpar entidades mortas
+        // FASE 5: Efeitos de morte e torres (morte súbita, destruição, coroas e ativação do core)
+        // --------------------------------------------
+        this.resolveDeathEffects();
+        if (this.gameState.phase === MatchPhase.SUDDEN_DEATH) {
+            this.applySuddenDeathDecay(deltaTime);
+        }
+        this.updateTowers();
+
+        // --------------------------------------------
+        // FASE 6: Limpar entidades mortas
         // --------------------------------------------
         this.cleanupDeadEntities();
 
         // --------------------------------------------
-        // FASE 6: Verificar Win Condition
+        // FASE 7: Verificar Win Condition
         // --------------------------------------------
         this.checkWinCondition();
 
         // --------------------------------------------
-        // FASE 7: Atualizar snapshot de estado
+        // FASE 8: Atualizar snapshot de estado
         // --------------------------------------------
         this.gameState.entities = this.entities.map((e) => e.toSnapshot());
 
         // --------------------------------------------
-        // FASE 8: Broadcast de Estado via WebSocket
+        // FASE 9: Broadcast de Estado via WebSocket
         // --------------------------------------------
         this.broadcastGameTick();
 
         // Log de debug (a cada 20 ticks = 1 segundo)
         if (this.config.verboseLogging && this.gameState.tick % 20 === 0) {
-            const elapsed = Math.floor((Date.now() - this.gameState.startTime) / 1000);
+            const elapsed = Math.floor(this.getSimulationTime() / 1000);
             const stats = this.combatSystem.getStats(this.entities);
             console.log(
                 `[GameRoom ${this.roomId}] Tick: ${this.gameState.tick} | ` +
@@ -533,20 +1073,60 @@ export class GameRoom {
         }
     }
 
+    /**
+     * Processa a fila de ações na fase de inputs do tick.
+     *
+     * Ordem determinística: a prioridade entre jogadores alterna a cada
+     * tick (ímpar → Player 1 primeiro) e, dentro de um mesmo jogador,
+     * as ações seguem o número de sequência do cliente.
+     */
+    private processPlayerActions(): void {
+        if (this.actionQueue.length === 0) return;
+
+        const firstPlayer: 1 | 2 = this.gameState.tick % 2 === 1 ? 1 : 2;
+        const actions = this.actionQueue.sort((a, b) => {
+            if (a.playerIndex !== b.playerIndex) {
+                return a.playerIndex === firstPlayer ? -1 : 1;
+            }
+            return a.seq - b.seq;
+        });
+        this.actionQueue = [];
+
+        for (const action of actions) {
+            const accepted = this.handleSpawnRequest(
+                action.playerIndex,
+                action.cardIndex,
+                action.x,
+                action.y
+            );
+            this.sendActionAck(action.playerIndex, action.seq, accepted);
+        }
+    }
+
     /**
      * Envia GAME_TICK para todos os clientes da sala.
      */
     private broadcastGameTick(): void {
-        if (!this.broadcastFn) return;
+        if (!this.broadcastFn && !this.config.headless) return;
 
         // Construir deltas de entidades (formato comprimido)
-        const entities: EntityDelta[] = this.entities.map((e) => ({
-            id: e.id,
-            x: Math.round(e.position.x * 100) / 100, // 2 decimais
-            y: Math.round(e.position.y * 100) / 100,
-            hp: e.stats.hp,
-            s: stateToCode(e.state),
-        }));
+        const tickTime = this.getSimulationTime();
+        const entities: EntityDelta[] = this.entities.map((e) => {
+            const delta: EntityDelta = {
+                id: e.id,
+                x: Math.round(e.position.x * 100) / 100, // 2 decimais
+                y: Math.round(e.position.y * 100) / 100,
+                hp: e.stats.hp,
+                s: stateToCode(e.state),
+            };
+
+            // Efeitos de status só vão no delta quando existem
+            const effects = this.statusEffectSystem.getActiveTypes(e, tickTime);
+            if (effects.length > 0) {
+                delta.fx = effects;
+            }
+            return delta;
+        });
 
         // Construir deltas de torres (unidades com flag isTower)
         const towers: TowerDelta[] = this.entities
@@ -557,15 +1137,26 @@ export class GameRoom {
             }));
 
 
+        // Construir deltas de projéteis em voo
+        const projectiles: ProjectileDelta[] = this.combatSystem.getProjectiles().map((p) => ({
+            id: p.id,
+            unitId: p.sourceUnitId,
+            x: Math.round(p.position.x * 100) / 100,
+            y: Math.round(p.position.y * 100) / 100,
+            tx: Math.round(p.impactPosition.x * 100) / 100,
+            ty: Math.round(p.impactPosition.y * 100) / 100,
+        }));
+
         const payload: GameTickPayload = {
             tick: this.gameState.tick,
             mana1: Math.round(this.gameState.mana.player1 * 10) / 10,
             mana2: Math.round(this.gameState.mana.player2 * 10) / 10,
             entities,
             towers,
+            projectiles,
         };
 
-        this.broadcastFn({
+        this.broadcast({
             type: S2CMessageType.GAME_TICK,
             payload,
         });
@@ -573,10 +1164,14 @@ export class GameRoom {
 
     /**
      * Atualiza a mana dos jogadores.
+     * A regeneração segue o multiplicador da fase de mana atual.
      */
     private updateMana(): void {
-        const manaPerTick = this.config.manaRegenRate / this.config.tickRate;
-        const maxMana = 10;
+        this.updateManaMultiplier();
+
+        const manaPerTick =
+            (this.config.manaRegenRate * this.gameState.manaMultiplier) / this.config.tickRate;
+        const { maxMana } = this.config;
 
         this.gameState.mana.player1 = Math.min(
             maxMana,
@@ -588,6 +1183,162 @@ export class GameRoom {
         );
     }
 
+    /**
+     * Aplica a fase de mana do tick atual e avisa os clientes se mudou.
+     */
+    private updateManaMultiplier(): void {
+        const multiplier = this.getManaMultiplierAt(this.gameState.tick);
+        if (multiplier === this.gameState.manaMultiplier) return;
+
+        this.gameState.manaMultiplier = multiplier;
+        console.log(`[GameRoom ${this.roomId}] 💧 Mana x${multiplier}`);
+        this.broadcastManaPhase();
+    }
+
+    /**
+     * Retorna o multiplicador de mana vigente em um tick
+     * (a fase com o início mais recente já alcançado).
+     */
+    private getManaMultiplierAt(tick: number): number {
+        let multiplier = 1;
+        let latestStart = -Infinity;
+
+        for (const phase of this.config.manaPhases) {
+            const startTick = Math.round(phase.startsAtSecond * this.config.tickRate);
+            if (tick >= startTick && startTick >= latestStart) {
+                latestStart = startTick;
+                multiplier = phase.multiplier;
+            }
+        }
+
+        return multiplier;
+    }
+
+    /**
+     * Envia o multiplicador de mana atual para os clientes.
+     */
+    private broadcastManaPhase(): void {
+        this.broadcast({
+            type: S2CMessageType.MANA_PHASE,
+            multiplier: this.gameState.manaMultiplier,
+            maxMana: this.config.maxMana,
+        });
+    }
+
+    /**
+     * Aplica o desgaste dos prédios e invoca as tropas dos geradores.
+     */
+    private updateBuildings(tickTime: number, deltaTime: number): void {
+        const requests = this.buildingSystem.update(this.entities, tickTime, deltaTime, this.gameState.tick);
+
+        for (const request of requests) {
+            const playerIndex = request.ownerId === 'player1' ? 1 : 2;
+            this.spawnUnit(playerIndex, request.unitId, request.position.x, request.position.y);
+        }
+    }
+
+    /**
+     * Reavalia as sinergias de afinidade e avisa cada jogador quando as suas mudam.
+     */
+    private updateSynergies(): void {
+        const previous = this.gameState.synergies;
+        const current = this.synergySystem.update(this.entities);
+        this.gameState.synergies = current;
+
+        for (const playerIndex of [1, 2] as const) {
+            const key = playerIndex === 1 ? 'player1' : 'player2';
+            if (JSON.stringify(previous[key]) === JSON.stringify(current[key])) continue;
+
+            this.sendToPlayer(playerIndex, {
+                type: S2CMessageType.SYNERGY_UPDATE,
+                synergies: current[key],
+            });
+        }
+    }
+
+    /**
+     * Sincroniza o estado das torres e aplica a regra da torre do rei:
+     * o core adormecido desperta ao receber dano ou quando uma torre
+     * lateral do mesmo lado é destruída.
+     */
+    private updateTowers(): void {
+        for (const tower of this.towers.values()) {
+            if (tower.isDestroyed) continue;
+
+            const entity = this.entities.find((e) => e.id === tower.id);
+            tower.health = entity ? entity.stats.hp : 0;
+            tower.isDestroyed = !entity || !entity.isAlive();
+        }
+
+        this.gameState.crowns = this.countCrowns();
+
+        for (const tower of this.towers.values()) {
+            if (tower.isActive || tower.isDestroyed) continue;
+
+            if (tower.health < tower.maxHealth) {
+                this.activateTower(tower, TowerActivationReason.DAMAGED);
+                continue;
+            }
+
+            const lostSideTower = [...this.towers.values()].some(
+                (t) => t.ownerId === tower.ownerId && t.role === TowerRole.SIDE && t.isDestroyed
+            );
+            if (lostSideTower) {
+                this.activateTower(tower, TowerActivationReason.SIDE_TOWER_DESTROYED);
+            }
+        }
+    }
+
+    /**
+     * Desperta uma torre adormecida e avisa os clientes.
+     */
+    private activateTower(tower: TowerState, reason: TowerActivationReason): void {
+        const entity = this.entities.find((e) => e.id === tower.id);
+        entity?.activate();
+        tower.isActive = true;
+
+        if (this.config.verboseLogging) {
+            console.log(`[GameRoom ${this.roomId}] 👑 Torre ${tower.id} despertou (${reason})`);
+        }
+
+        this.broadcast({
+            type: S2CMessageType.TOWER_ACTIVATED,
+            towerId: tower.id,
+            reason,
+        });
+    }
+
+    /**
+     * Dispara os efeitos de morte (explosão e invocações) das unidades que morreram neste tick.
+     * Roda antes da limpeza, então cada morte é resolvida uma única vez.
+     */
+    private resolveDeathEffects(): void {
+        const resolved = new Set<string>();
+        let pending = this.entities.filter((e) => !e.isAlive() && e.deathEffect);
+
+        // Explosões podem matar outras unidades com efeito de morte (em cadeia)
+        while (pending.length > 0) {
+            for (const entity of pending) {
+                resolved.add(entity.id);
+                const { hits, spawns } = applyDeathEffect(entity, this.entities, this.config.splashFriendlyFire);
+
+                if (this.config.verboseLogging && hits.length > 0) {
+                    console.log(
+                        `[GameRoom ${this.roomId}] 💥 ${entity.id} explodiu ao morrer: ` +
+                        hits.map((hit) => hit.entity.id).join(', ')
+                    );
+                }
+
+                for (const spawn of spawns) {
+                    const playerIndex = spawn.ownerId === 'player1' ? 1 : 2;
+                    this.spawnUnit(playerIndex, spawn.unitId, spawn.position.x, spawn.position.y);
+                }
+            }
+
+            pending = this.entities.filter((e) => !e.isAlive() && e.deathEffect && !resolved.has(e.id));
+        }
+    }
+
     /**
      * Remove entidades mortas da lista.
      */
@@ -601,57 +1352,179 @@ export class GameRoom {
         }
     }
 
+    /**
+     * Conta as coroas de cada jogador a partir das torres destruídas.
+     * Torre lateral vale 1 coroa; o core vale 3 (limitado a 3 no total).
+     */
+    private countCrowns(): CrownCount {
+        const crowns: CrownCount = { player1: 0, player2: 0 };
+
+        for (const tower of this.towers.values()) {
+            if (!tower.isDestroyed) continue;
+
+            const scorer = tower.ownerId === 'player1' ? 'player2' : 'player1';
+            crowns[scorer] += tower.role === TowerRole.CORE ? CORE_TOWER_CROWNS : SIDE_TOWER_CROWNS;
+        }
+
+        crowns.player1 = Math.min(MAX_CROWNS, crowns.player1);
+        crowns.player2 = Math.min(MAX_CROWNS, crowns.player2);
+        return crowns;
+    }
+
+    /**
+     * Verifica se algum core do jogador foi destruído (os IDs das torres vêm da arena).
+     */
+    private isCoreDestroyed(ownerId: 'player1' | 'player2'): boolean {
+        for (const tower of this.towers.values()) {
+            if (tower.ownerId === ownerId && tower.role === TowerRole.CORE && tower.isDestroyed) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Morte súbita: todas as torres vivas perdem uma fração da vida máxima.
+     * O decaimento para em 1 de vida: só ataques derrubam torres e rendem coroas.
+     */
+    private applySuddenDeathDecay(deltaTime: number): void {
+        const decayPerTick = this.config.suddenDeathTowerDecay * deltaTime;
+
+        for (const entity of this.entities) {
+            if (!entity.isTower || !entity.isAlive()) continue;
+            const decay = Math.min(entity.stats.maxHp * decayPerTick, entity.stats.hp - 1);
+            if (decay > 0) entity.takeDamage(decay);
+        }
+    }
+
     /**
      * Verifica condições de vitória.
+     *
+     * - Core destruído: vitória imediata (empate se ambos caírem no mesmo tick)
+     * - Prorrogação/morte súbita: a primeira coroa de vantagem vence
+     * - Fim de cada fase: vence quem tiver mais coroas; se empatado,
+     *   avança para a próxima fase ou termina em empate
      */
     private checkWinCondition(): void {
-        const elapsed = Date.now() - this.gameState.startTime;
-        const maxDurationMs = this.config.maxDuration * 1000;
+        const { crowns, phase } = this.gameState;
+
+        // Verificar destruição do Core
+        const p1CoreDown = this.isCoreDestroyed('player1');
+        const p2CoreDown = this.isCoreDestroyed('player2');
 
-        // Verificar tempo limite
-        if (elapsed >= maxDurationMs) {
-            const winnerId = this.determineWinnerByTowers();
-            this.endGame(winnerId, 'Tempo limite atingido');
+        if (p1CoreDown && p2CoreDown) {
+            this.endGame(null, 'Ambos os cores destruídos');
+            return;
+        }
+        if (p1CoreDown) {
+            this.endGame('player2', 'Core do Player 1 destruído');
+            return;
+        }
+        if (p2CoreDown) {
+            this.endGame('player1', 'Core do Player 2 destruído');
             return;
         }
 
-        // Verificar destruição do Core
-        const p1Core = this.entities.find((t) => t.id === 't1_core');
-        const p2Core = this.entities.find((t) => t.id === 't2_core');
+        const leader = this.getCrownLeader();
 
-        if (p1Core && p1Core.stats.hp <= 0) {
-            this.endGame('player2', 'Core do Player 1 destruído');
+        // Fora do tempo regular, qualquer coroa de vantagem encerra a partida
+        if (leader && phase !== MatchPhase.REGULAR) {
+            const reason = phase === MatchPhase.OVERTIME
+                ? 'Coroa na prorrogação'
+                : 'Coroa na morte súbita';
+            this.endGame(leader, reason);
             return;
         }
 
-        if (p2Core && p2Core.stats.hp <= 0) {
-            this.endGame('player1', 'Core do Player 2 destruído');
+        // Verificar fim da fase atual
+        if (this.gameState.tick < this.getPhaseEndTick(phase)) return;
+
+        if (leader) {
+            this.endGame(leader, 'Tempo limite atingido');
+            return;
+        }
+
+        const nextPhase = this.getNextPhase(phase);
+        if (nextPhase) {
+            this.enterPhase(nextPhase);
             return;
         }
 
+        this.endGame(null, `Empate: ${crowns.player1} x ${crowns.player2} coroas`);
     }
 
     /**
-     * Determina vencedor por HP de torres.
+     * Retorna o jogador com mais coroas (ou null se empatado).
      */
-    private determineWinnerByTowers(): string {
-        const p1Towers = this.entities.filter((t) => t.isTower && t.ownerId === 'player1');
-        const p2Towers = this.entities.filter((t) => t.isTower && t.ownerId === 'player2');
+    private getCrownLeader(): 'player1' | 'player2' | null {
+        const { player1, player2 } = this.gameState.crowns;
+        if (player1 === player2) return null;
+        return player1 > player2 ? 'player1' : 'player2';
+    }
+
+    /**
+     * Retorna o tick em que uma fase termina.
+     */
+    private getPhaseEndTick(phase: MatchPhase): number {
+        const { maxDuration, overtimeDuration, suddenDeathDuration, tickRate } = this.config;
 
-        const p1TotalHp = p1Towers.reduce((sum, t) => sum + t.stats.hp, 0);
-        const p2TotalHp = p2Towers.reduce((sum, t) => sum + t.stats.hp, 0);
+        let seconds = maxDuration;
+        if (phase !== MatchPhase.REGULAR) seconds += overtimeDuration;
+        if (phase === MatchPhase.SUDDEN_DEATH) seconds += suddenDeathDuration;
 
-        return p1TotalHp >= p2TotalHp ? 'player1' : 'player2';
+        return Math.round(seconds * tickRate);
     }
 
+    /**
+     * Retorna a fase seguinte com duração maior que zero (ou null se não houver).
+     */
+    private getNextPhase(phase: MatchPhase): MatchPhase | null {
+        if (phase === MatchPhase.REGULAR && this.config.overtimeDuration > 0) {
+            return MatchPhase.OVERTIME;
+        }
+        if (phase !== MatchPhase.SUDDEN_DEATH && this.config.suddenDeathDuration > 0) {
+            return MatchPhase.SUDDEN_DEATH;
+        }
+        return null;
+    }
+
+    /**
+     * Avança a partida para uma nova fase e avisa os clientes.
+     */
+    private enterPhase(phase: MatchPhase): void {
+        this.gameState.phase = phase;
+        console.log(`[GameRoom ${this.roomId}] ⏱️ Nova fase: ${phase}`);
+        this.broadcastMatchPhase();
+    }
+
+    /**
+     * Envia a fase atual da partida e o tick em que ela termina.
+     */
+    private broadcastMatchPhase(): void {
+        this.broadcast({
+            type: S2CMessageType.MATCH_PHASE,
+            phase: this.gameState.phase,
+            endsAtTick: this.getPhaseEndTick(this.gameState.phase),
+        });
+    }
 
     /**
      * Encerra o jogo e notifica callbacks.
+     * @param winnerId Vencedor ou null para empate
      */
-    private endGame(winnerId: string, reason: string): void {
+    private endGame(winnerId: string | null, reason: string): void {
+        const result: MatchResult = {
+            winnerId,
+            outcome: winnerId ? MatchOutcome.WIN : MatchOutcome.DRAW,
+            crowns: { ...this.gameState.crowns },
+            reason,
+            tick: this.gameState.tick,
+        };
+
+        this.matchResult = result;
         this.stop(reason);
         if (this.onGameEnd) {
-            this.onGameEnd(winnerId, reason);
+            this.onGameEnd(result);
         }
     }
 
@@ -659,6 +1532,14 @@ export class GameRoom {
     // GETTERS PÚBLICOS
     // ============================================
 
+    /**
+     * Retorna o tempo simulado da partida em ms.
+     * Derivado apenas do número do tick, nunca do relógio real.
+     */
+    public getSimulationTime(): number {
+        return ticksToMs(this.gameState.tick, this.config.tickRate);
+    }
+
     /**
      * Retorna o estado atual do jogo (para debug ou testes).
      */
@@ -666,6 +1547,13 @@ export class GameRoom {
         return this.gameState;
     }
 
+    /**
+     * Retorna o resultado da partida (null enquanto não terminar).
+     */
+    public getResult(): Readonly<MatchResult> | null {
+        return this.matchResult;
+    }
+
     /**
      * Retorna as entidades vivas (para debug).
      */
@@ -673,6 +1561,34 @@ export class GameRoom {
         return this.entities;
     }
 
+    /**
+     * Retorna as sinergias ativas de cada jogador.
+     */
+    public getSynergies(): Readonly<ActiveSynergies> {
+        return this.gameState.synergies;
+    }
+
+    /**
+     * Retorna a arena da partida (enviada aos clientes no MATCH_START).
+     */
+    public getArena(): Readonly<ArenaDefinition> {
+        return this.config.arena;
+    }
+
+    /**
+     * Retorna o estado de uma torre (inclusive destruída).
+     */
+    public getTowerState(towerId: string): Readonly<TowerState> | null {
+        return this.towers.get(towerId) ?? null;
+    }
+
+    /**
+     * Retorna os projéteis em voo.
+     */
+    public getProjectiles(): ReadonlyArray<Projectile> {
+        return this.combatSystem.getProjectiles();
+    }
+
     /**
      * Retorna estatísticas de combate.
      */
@@ -680,6 +1596,13 @@ export class GameRoom {
         return this.combatSystem.getStats(this.entities);
     }
 
+    /**
+     * Retorna a mão atual de um jogador (para debug ou testes).
+     */
+    public getHand(playerIndex: 1 | 2): ReadonlyArray<CardConfig> {
+        return this.deckCycles.get(playerIndex)?.getHand() ?? [];
+    }
+
     /**
      * Retorna informações da sala.
      */
@@ -713,15 +1636,87 @@ export class GameRoom {
     }
 
     /**
-     * Processa requisição de spawn de carta.
+     * Enfileira uma requisição de spawn para a fase de inputs do próximo tick.
      * Chamado pelo SocketManager quando recebe SPAWN_CARD.
+     *
+     * A ação não é aplicada aqui: a validação completa acontece dentro do tick,
+     * e o jogador recebe um ACTION_ACK com o tick em que ela teve efeito.
+     *
+     * @param playerIndex 1 ou 2
+     * @param seq Número de sequência do cliente (deve ser crescente)
+     * @returns true se a ação foi enfileirada
+     */
+    public queueSpawnRequest(
+        playerIndex: 1 | 2,
+        seq: number,
+        cardIndex: number,
+        x: number,
+        y: number
+    ): boolean {
+        if (!this.gameState.isRunning) {
+            this.sendErrorToPlayer(
+                playerIndex,
+                ErrorCode.GAME_NOT_RUNNING,
+                `A partida não está em andamento.`
+            );
+            return false;
+        }
+
+        // Sequência deve ser inteira e crescente (descarta duplicadas/antigas)
+        const lastSeq = this.lastActionSeq.get(playerIndex) ?? 0;
+        if (!Number.isInteger(seq) || seq <= lastSeq) {
+            console.warn(
+                `[AntiCheat] Ação descartada P${playerIndex}: sequência inválida (${seq}, última: ${lastSeq})`
+            );
+            this.sendErrorToPlayer(
+                playerIndex,
+                ErrorCode.INVALID_SEQUENCE,
+                `Sequência de ação inválida: ${seq}.`
+            );
+            return false;
+        }
+        this.lastActionSeq.set(playerIndex, seq);
+
+        const pending = this.actionQueue.filter((a) => a.playerIndex === playerIndex).length;
+        if (pending >= MAX_PENDING_ACTIONS_PER_PLAYER) {
+            this.sendErrorToPlayer(
+                playerIndex,
+                ErrorCode.ACTION_QUEUE_FULL,
+                `Muitas ações pendentes. Aguarde o próximo tick.`
+            );
+            this.sendActionAck(playerIndex, seq, false);
+            return false;
+        }
+
+        this.actionQueue.push({ playerIndex, seq, cardIndex, x, y });
+        return true;
+    }
+
+    /**
+     * Envia a confirmação de uma ação processada (ou rejeitada).
+     */
+    private sendActionAck(playerIndex: 1 | 2, seq: number, accepted: boolean): void {
+        this.sendToPlayer(playerIndex, {
+            type: S2CMessageType.ACTION_ACK,
+            seq,
+            tick: this.gameState.tick,
+            accepted,
+        });
+    }
+
+    /**
+     * Valida e aplica imediatamente uma requisição de spawn de carta.
+     * Chamado na fase de inputs do tick para cada ação da fila.
      * 
      * FASE 4: Anti-Cheat & Economy Validation
      * Validações em camadas:
-     * 1. Índice da carta (0-7)
+     * 1. Índice do slot na mão (0-3)
      * 2. Posição (deploy zones)
-     * 3. Existência da carta no deck
+     * 3. Existência da carta na mão
      * 4. Mana suficiente
+     *
+     * Em caso de sucesso, a carta jogada vai para o final da fila
+     * e o slot recebe a próxima carta.
      */
     public handleSpawnRequest(
         playerIndex: 1 | 2,
@@ -729,50 +1724,55 @@ export class GameRoom {
         x: number,
         y: number
     ): boolean {
-        // ===== VALIDAÇÃO 1: Índice da carta (0-7) =====
-        if (cardIndex < 0 || cardIndex > 7) {
+        // ===== VALIDAÇÃO 1: Índice do slot na mão =====
+        const cycle = this.deckCycles.get(playerIndex);
+        if (cycle && !cycle.isValidHandIndex(cardIndex)) {
             console.warn(
                 `[AntiCheat] Bloqueado spawn P${playerIndex}: índice de carta inválido (${cardIndex})`
             );
             this.sendErrorToPlayer(
                 playerIndex,
                 ErrorCode.INVALID_CARD_INDEX,
-                `Índice de carta inválido: ${cardIndex}. Use 0-7.`
+                `Índice de carta inválido: ${cardIndex}. Use 0-${cycle.getHand().length - 1}.`
             );
             return false;
         }
 
-        // ===== VALIDAÇÃO 2: Posição (Deploy Zones) =====
-        const zone = playerIndex === 1 ? DEPLOY_ZONE_P1 : DEPLOY_ZONE_P2;
-        if (y < zone.minY || y > zone.maxY || x < MAP_BOUNDS_X.min || x > MAP_BOUNDS_X.max) {
+        // ===== VALIDAÇÃO 2: Obter carta da mão =====
+        const card = cycle?.getCard(cardIndex) ?? null;
+        if (!cycle || !card) {
             console.warn(
-                `[AntiCheat] Bloqueado spawn P${playerIndex}: posição fora da zona. ` +
-                `Pos: (${x}, ${y}), Zona Y: [${zone.minY}-${zone.maxY}]`
+                `[AntiCheat] Bloqueado spawn P${playerIndex}: carta não encontrada no índice ${cardIndex}`
             );
             this.sendErrorToPlayer(
                 playerIndex,
-                ErrorCode.INVALID_POSITION,
-                `Posição inválida: spawn fora da sua zona de deploy.`
+                ErrorCode.CARD_NOT_FOUND,
+                `Carta não encontrada no índice ${cardIndex}.`
             );
             return false;
         }
-
-        // ===== VALIDAÇÃO 3: Obter deck e carta =====
-        const deck = this.getPlayerDeck(playerIndex);
-        if (!deck || !deck.cards[cardIndex]) {
+        const kind = getCardKind(card.baseUnitId);
+
+        // ===== VALIDAÇÃO 3: Posição (Deploy Zones para unidades, mapa inteiro para feitiços) =====
+        const { arena } = this.config;
+        const zone = kind === CardKind.SPELL
+            ? getArenaBounds(arena)
+            : playerIndex === 1 ? arena.deployZones.player1 : arena.deployZones.player2;
+        if (!isInsideZone({ x, y }, zone)) {
             console.warn(
-                `[AntiCheat] Bloqueado spawn P${playerIndex}: carta não encontrada no índice ${cardIndex}`
+                `[AntiCheat] Bloqueado spawn P${playerIndex}: posição fora da zona. ` +
+                `Pos: (${x}, ${y}), Zona: X [${zone.minX}-${zone.maxX}] Y [${zone.minY}-${zone.maxY}]`
             );
             this.sendErrorToPlayer(
                 playerIndex,
-                ErrorCode.CARD_NOT_FOUND,
-                `Carta não encontrada no índice ${cardIndex}.`
+                ErrorCode.INVALID_POSITION,
+                kind === CardKind.SPELL
+                    ? `Posição inválida: feitiço fora do mapa.`
+                    : `Posição inválida: spawn fora da sua zona de deploy.`
             );
             return false;
         }
 
-        const card = deck.cards[cardIndex];
-
         // ===== VALIDAÇÃO 4: Calcular custo real =====
         const cost = calculateCardCostByIds(card.baseUnitId, card.equippedItems);
         if (cost === null) {
@@ -812,10 +1812,24 @@ export class GameRoom {
             this.gameState.mana.player2 -= cost;
         }
 
-        // ===== Spawnar unidade =====
-        const entity = this.spawnUnit(playerIndex, card.baseUnitId, x, y, card.equippedItems);
+        // ===== Spawnar unidade, posicionar prédio ou conjurar feitiço =====
+        const spell = kind === CardKind.SPELL ? getSpellById(card.baseUnitId) : undefined;
+        const building = kind === CardKind.BUILDING ? getBuildingById(card.baseUnitId) : undefined;
+        let played: boolean;
+        if (spell) {
+            played = this.castSpell(playerIndex, spell, x, y);
+        } else if (building) {
+            this.spawnBuilding(playerIndex, building, x, y);
+            played = true;
+        } else {
+            played = this.spawnFormation(playerIndex, card.baseUnitId, x, y, card.equippedItems).length > 0;
+        }
+
+        if (played) {
+            // ===== Rotacionar ciclo de cartas =====
+            cycle.play(cardIndex);
+            this.sendHandUpdate(playerIndex);
 
-        if (entity) {
             console.log(
                 `[AntiCheat] ✅ Spawn P${playerIndex} autorizado. ` +
                 `Carta: ${card.baseUnitId}, Custo: ${cost}, ` +
@@ -827,7 +1841,7 @@ export class GameRoom {
             );
         }
 
-        return entity !== null;
+        return played;
     }
 
     /**
@@ -839,29 +1853,36 @@ export class GameRoom {
         code: ErrorCode,
         message: string
     ): void {
-        if (this.sendToPlayerFn) {
-            this.sendToPlayerFn(playerIndex, {
-                type: S2CMessageType.ERROR,
-                code,
-                message,
-            });
-        }
+        this.sendToPlayer(playerIndex, {
+            type: S2CMessageType.ERROR,
+            code,
+            message,
+        });
     }
 
     /**
-     * Obtém o deck do jogador.
+     * Envia a mão atual e a próxima carta para um jogador.
      */
-    private getPlayerDeck(playerIndex: 1 | 2): PlayerDeck | null {
-        const player = playerIndex === 1 ? this.player1 : this.player2;
-        if (!player) return null;
+    private sendHandUpdate(playerIndex: 1 | 2): void {
+        const cycle = this.deckCycles.get(playerIndex);
+        if (!cycle) return;
+
+        const next = cycle.getNextCard();
+        this.sendToPlayer(playerIndex, {
+            type: S2CMessageType.HAND_UPDATE,
+            hand: cycle.getHand().map((card) => this.toHandCardData(card)),
+            next: next ? this.toHandCardData(next) : null,
+        });
+    }
 
+    /**
+     * Converte uma carta do deck para o formato enviado ao cliente.
+     */
+    private toHandCardData(card: CardConfig): HandCardData {
         return {
-            deckId: player.deckId,
-            playerId: player.playerId,
-            deckName: 'Player Deck',
-            cards: player.deckCards,
-            createdAt: new Date(),
-            updatedAt: new Date()
+            baseUnitId: card.baseUnitId,
+            equippedItems: [...card.equippedItems],
+            manaCost: calculateCardCostByIds(card.baseUnitId, card.equippedItems) ?? 0,
         };
     }
 
@@ -869,8 +1890,28 @@ export class GameRoom {
      * Faz broadcast de uma mensagem para os clientes da sala.
      */
     public broadcast(message: S2CMessage): void {
+        this.recordEvent('all', message);
         if (this.broadcastFn) {
             this.broadcastFn(message);
         }
     }
+
+    /**
+     * Envia uma mensagem para um jogador específico.
+     */
+    private sendToPlayer(playerIndex: 1 | 2, message: S2CMessage): void {
+        this.recordEvent(playerIndex, message);
+        if (this.sendToPlayerFn) {
+            this.sendToPlayerFn(playerIndex, message);
+        }
+    }
+
+    /**
+     * Registra uma mensagem emitida (apenas no modo headless).
+     */
+    private recordEvent(target: RoomEvent['target'], message: S2CMessage): void {
+        if (this.config.headless) {
+            this.eventLog.push({ tick: this.gameState.tick, target, message });
+        }
+    }
 }
@@ -0,0 +1,123 @@
+/**
+ * Magic Royale - Pathfinding
+ *
+ * Rotas de unidades terrestres na arena: o rio só pode ser atravessado
+ * pelas pontes, então o caminho passa por waypoints na entrada e na saída
+ * da ponte mais conveniente. Unidades aéreas seguem em linha reta.
+ *
+ * @module core/game/pathfinding
+ */
+
+import type { Vector2D } from './physics.js';
+import type { RiverDefinition, BridgeDefinition } from '../types/arena.js';
+
+/** Distância entre dois pontos (local para não depender do módulo de física, que usa este) */
+function distance(a: Vector2D, b: Vector2D): number {
+    return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+/** Distância (unidades do grid) das margens em que ficam os waypoints da ponte */
+export const BRIDGE_WAYPOINT_MARGIN = 0.5;
+
+/**
+ * Retorna a ponte que cobre a coordenada X (null se nenhuma).
+ * @param x Coordenada X
+ * @param river Rio da arena
+ */
+export function getBridgeAt(x: number, river: RiverDefinition): BridgeDefinition | null {
+    return river.bridges.find((b) => x >= b.minX && x <= b.maxX) ?? null;
+}
+
+/**
+ * Verifica se o ponto está na água (dentro do rio e fora das pontes).
+ * As margens (Y exatamente no limite) são terra firme.
+ * @param point Ponto a verificar
+ * @param river Rio da arena
+ */
+export function isInRiver(point: Vector2D, river: RiverDefinition): boolean {
+    return point.y > river.minY && point.y < river.maxY && getBridgeAt(point.x, river) === null;
+}
+
+/**
+ * Verifica se o segmento de `from` até `to` pode ser percorrido por terra.
+ * O trecho dentro do rio precisa estar inteiro sobre uma mesma ponte.
+ * @param from Origem
+ * @param to Destino
+ * @param river Rio da arena
+ */
+export function isPathClear(from: Vector2D, to: Vector2D, river: RiverDefinition): boolean {
+    const lowY = Math.min(from.y, to.y);
+    const highY = Math.max(from.y, to.y);
+    if (highY <= river.minY || lowY >= river.maxY) return true;
+
+    // X do segmento nos pontos em que ele entra e sai da faixa do rio
+    const dy = to.y - from.y;
+    const xAt = (y: number) => (dy === 0 ? from.x : from.x + ((y - from.y) / dy) * (to.x - from.x));
+    const startX = dy === 0 ? from.x : xAt(Math.max(lowY, river.minY));
+    const endX = dy === 0 ? to.x : xAt(Math.min(highY, river.maxY));
+
+    const bridge = getBridgeAt(startX, river);
+    return bridge !== null && endX >= bridge.minX && endX <= bridge.maxX;
+}
+
+/**
+ * Próximo ponto para onde uma unidade terrestre deve andar para chegar ao destino.
+ * Sem o rio no caminho, é o próprio destino; senão, a entrada ou a saída da ponte
+ * que minimiza o percurso total.
+ * @param from Posição atual
+ * @param to Destino final
+ * @param river Rio da arena
+ */
+export function getNextWaypoint(from: Vector2D, to: Vector2D, river: RiverDefinition): Vector2D {
+    if (river.bridges.length === 0 || isPathClear(from, to, river)) return to;
+
+    const goingUp = to.y > from.y;
+    const entryY = goingUp ? river.minY - BRIDGE_WAYPOINT_MARGIN : river.maxY + BRIDGE_WAYPOINT_MARGIN;
+    const exitY = goingUp ? river.maxY + BRIDGE_WAYPOINT_MARGIN : river.minY - BRIDGE_WAYPOINT_MARGIN;
+
+    let best: { entry: Vector2D; exit: Vector2D; cost: number } | null = null;
+    for (const bridge of river.bridges) {
+        const centerX = (bridge.minX + bridge.maxX) / 2;
+        const entry = { x: centerX, y: entryY };
+        const exit = { x: centerX, y: exitY };
+        const cost = distance(from, entry) + distance(entry, exit) + distance(exit, to);
+
+        if (!best || cost < best.cost) {
+            best = { entry, exit, cost };
+        }
+    }
+
+    // Já alinhada com a ponte: segue direto para a outra margem
+    return isPathClear(from, best!.exit, river) ? best!.exit : best!.entry;
+}
+
+/**
+ * Tira da água uma unidade terrestre empurrada para dentro do rio,
+ * levando-a para a margem ou borda de ponte mais próxima.
+ * @param position Posição (alterada no lugar)
+ * @param river Rio da arena
+ * @returns true se a posição foi corrigida
+ */
+export function pushOutOfRiver(position: Vector2D, river: RiverDefinition): boolean {
+    if (!isInRiver(position, river)) return false;
+
+    const candidates: Vector2D[] = [
+        { x: position.x, y: river.minY },
+        { x: position.x, y: river.maxY },
+        ...river.bridges.flatMap((b) => [
+            { x: b.minX, y: position.y },
+            { x: b.maxX, y: position.y },
+        ]),
+    ];
+
+    let nearest = candidates[0];
+    for (const candidate of candidates) {
+        if (distance(position, candidate) < distance(position, nearest)) {
+            nearest = candidate;
+        }
+    }
+
+    position.x = nearest.x;
+    position.y = nearest.y;
+    return true;
+}
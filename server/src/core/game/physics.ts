@@ -7,7 +7,10 @@
  * @module core/game/physics
  */
 
-import type { Vector2D } from '@crom/shared';
+import { MovementLayer, PHYSICS, DEFAULT_ARENA, getArenaBounds } from '@crom/shared';
+import type { Vector2D, RiverDefinition, ArenaZone } from '@crom/shared';
+import { getNextWaypoint, pushOutOfRiver } from './pathfinding.js';
+import { SpatialHash } from './spatial-hash.js';
 export type { Vector2D };
 
 
@@ -21,10 +24,20 @@ export interface PhysicsEntity {
     id: string;
     position: Vector2D;
     radius: number;
+    /** Massa nas colisões (ausente = PHYSICS.DEFAULT_MASS) */
+    mass?: number;
     moveSpeed: number;
     targetPosition: Vector2D | null;
     isMoving: boolean;
     isTower?: boolean;
+    /** Prédios são fixos como torres */
+    isBuilding?: boolean;
+    /** Plano de movimento (ausente = GROUND). Só há colisão no mesmo plano */
+    movementLayer?: MovementLayer;
+    /** Alvo perseguido (não é contornado como obstáculo) */
+    targetId?: string | null;
+    /** Distância do targetPosition em que a entidade para (alcance + raios; ausente = 0) */
+    arriveDistance?: number;
 }
 
 
@@ -143,6 +156,14 @@ export function clone(v: Vector2D): Vector2D {
     return { x: v.x, y: v.y };
 }
 
+/**
+ * Verifica se a entidade é fixa (torres e prédios não são empurrados).
+ * @param entity Entidade a verificar
+ */
+export function isImmovable(entity: PhysicsEntity): boolean {
+    return (entity.isTower ?? false) || (entity.isBuilding ?? false);
+}
+
 // ============================================
 // SISTEMA DE FÍSICA
 // ============================================
@@ -155,39 +176,56 @@ export interface PhysicsConfig {
     separationForce: number;
     /** Número de iterações de resolução de colisão (default: 3) */
     collisionIterations: number;
-    /** Limites do mapa */
-    bounds: {
-        minX: number;
-        maxX: number;
-        minY: number;
-        maxY: number;
-    };
+    /** Limites do mapa (default: os da DEFAULT_ARENA) */
+    bounds: ArenaZone;
+    /** Rio que unidades terrestres só atravessam pelas pontes (null = arena aberta; default: o da DEFAULT_ARENA) */
+    river: RiverDefinition | null;
+    /** Índice espacial para os pares de colisão (pode ser compartilhado com o combate) */
+    spatialIndex: SpatialHash<PhysicsEntity>;
+    /** Antecipação (s de movimento) com que torres e prédios à frente são contornados (default: 0.75) */
+    avoidanceLookAhead: number;
+    /** Folga mantida ao contornar torres e prédios (default: 0.2) */
+    avoidanceMargin: number;
+    /** Peso da separação entre unidades em movimento, relativo à velocidade (default: 1.0) */
+    separationWeight: number;
+    /** Distância extra, além dos raios, em que unidades próximas se afastam (default: 0.3) */
+    separationDistance: number;
+    /** Distância antes do ponto de parada em que a unidade começa a frear (default: 0.5) */
+    arriveSlowingDistance: number;
 }
 
-const DEFAULT_PHYSICS_CONFIG: PhysicsConfig = {
+const DEFAULT_PHYSICS_CONFIG: Omit<PhysicsConfig, 'spatialIndex'> = {
     separationForce: 2.0,
     collisionIterations: 3,
-    bounds: {
-        minX: 0,
-        maxX: 30,
-        minY: 0,
-        maxY: 40,
-    },
+    bounds: getArenaBounds(DEFAULT_ARENA),
+    river: DEFAULT_ARENA.river,
+    avoidanceLookAhead: 0.75,
+    avoidanceMargin: 0.2,
+    separationWeight: 1.0,
+    separationDistance: 0.3,
+    arriveSlowingDistance: 0.5,
 };
 
+/** Fração mínima da velocidade durante a frenagem (evita aproximação infinita) */
+const ARRIVE_MIN_SPEED = 0.5;
+
+/** Folga para parar um pouco dentro do alcance (a FSM compara com <=) */
+const ARRIVE_EPSILON = 0.05;
+
 /**
  * Sistema de física para movimento e colisões.
  * 
  * Responsabilidades:
- * - Mover entidades em direção ao alvo
- * - Resolver colisões círculo-círculo
- * - Manter entidades dentro dos limites do mapa
+ * - Mover entidades em direção ao alvo (terrestres pelas pontes do rio) com steering:
+ *   seek, arrive (para no alcance de ataque), desvio de torres/prédios e separação
+ * - Resolver colisões círculo-círculo (apenas entre entidades do mesmo plano)
+ * - Manter entidades dentro dos limites do mapa e unidades terrestres fora do rio
  */
 export class PhysicsSystem {
     private config: PhysicsConfig;
 
     constructor(config?: Partial<PhysicsConfig>) {
-        this.config = { ...DEFAULT_PHYSICS_CONFIG, ...config };
+        this.config = { ...DEFAULT_PHYSICS_CONFIG, spatialIndex: new SpatialHash(), ...config };
     }
 
     /**
@@ -196,103 +234,232 @@ export class PhysicsSystem {
      * @param deltaTime Tempo desde o último tick (em segundos)
      */
     public update<T extends PhysicsEntity>(entities: T[], deltaTime: number): void {
-        // Fase 1: Movimento
+        const index = this.config.spatialIndex;
+        index.rebuild(entities);
+        const obstacles = entities.filter(isImmovable);
+
+        // Fase 1: Movimento (steering)
         for (const entity of entities) {
             if (entity.isMoving && entity.targetPosition) {
-                this.moveTowards(entity, entity.targetPosition, deltaTime);
+                this.moveTowards(entity, entity.targetPosition, obstacles, deltaTime);
+                index.update(entity);
             }
         }
 
         // Fase 2: Resolução de colisões (múltiplas iterações para estabilidade)
         for (let i = 0; i < this.config.collisionIterations; i++) {
-            this.resolveCollisions(entities, deltaTime);
+            this.resolveCollisions(deltaTime);
         }
 
-        // Fase 3: Clamp nos limites do mapa
+        // Fase 3: Clamp nos limites do mapa e nas margens do rio
         for (const entity of entities) {
             this.clampToBounds(entity);
+            if (this.config.river && this.isGrounded(entity)) {
+                pushOutOfRiver(entity.position, this.config.river);
+            }
         }
     }
 
+    /**
+     * Verifica se a entidade anda por terra (e portanto respeita o rio).
+     */
+    private isGrounded<T extends PhysicsEntity>(entity: T): boolean {
+        return (entity.movementLayer ?? MovementLayer.GROUND) === MovementLayer.GROUND && !isImmovable(entity);
+    }
+
     /**
      * Move uma entidade em direção a um ponto alvo.
+     * Unidades terrestres seguem pelos waypoints das pontes quando o rio está no caminho.
+     * Combina seek/arrive com o desvio de obstáculos e a separação entre unidades.
      * @param entity Entidade a mover
      * @param target Posição alvo
+     * @param obstacles Torres e prédios (fixos)
      * @param deltaTime Tempo em segundos
      */
     private moveTowards<T extends PhysicsEntity>(
         entity: T,
         target: Vector2D,
+        obstacles: PhysicsEntity[],
         deltaTime: number
     ): void {
-        const direction = getVector(entity.position, target);
-        const distance = magnitude(direction);
+        // Arrive: para ao chegar no alcance do alvo, sem invadir o espaço dele
+        const stopDistance = Math.max(0, (entity.arriveDistance ?? 0) - ARRIVE_EPSILON);
+        const remainingToTarget = getDistance(entity.position, target) - stopDistance;
 
-        // Se já chegou (com margem de erro)
-        if (distance < 0.1) {
+        // Se já chegou (com margem de erro quando não há alcance)
+        const arrived = stopDistance > 0 ? remainingToTarget <= 0 : remainingToTarget < 0.1;
+        if (arrived) {
             entity.isMoving = false;
             return;
         }
 
-        // Calcular deslocamento
-        const normalizedDir = normalize(direction);
-        const moveDistance = entity.moveSpeed * deltaTime;
+        const waypoint = this.config.river && this.isGrounded(entity)
+            ? getNextWaypoint(entity.position, target, this.config.river)
+            : target;
+        const headingToTarget = waypoint === target;
+        const remaining = headingToTarget ? remainingToTarget : getDistance(entity.position, waypoint);
+
+        // Seek (desviando de torres e prédios no caminho)
+        const seek = normalize(getVector(entity.position, waypoint));
+        const direction = this.avoidObstacles(entity, seek, obstacles);
+
+        // Frear perto do ponto de parada
+        let speed = entity.moveSpeed;
+        if (headingToTarget && remaining < this.config.arriveSlowingDistance) {
+            speed *= Math.max(ARRIVE_MIN_SPEED, remaining / this.config.arriveSlowingDistance);
+        }
+
+        // Separação das unidades vizinhas, sem ultrapassar a velocidade da unidade
+        let velocity = add(
+            scale(direction, speed),
+            scale(this.getSeparation(entity), entity.moveSpeed * this.config.separationWeight)
+        );
+        if (magnitude(velocity) > speed) {
+            velocity = scale(normalize(velocity), speed);
+        }
 
-        // Não ultrapassar o destino
-        const actualMove = Math.min(moveDistance, distance);
+        // Não ultrapassar o waypoint (ou o ponto de parada)
+        const step = Math.min(magnitude(velocity) * deltaTime, remaining);
+        const move = scale(normalize(velocity), step);
 
-        entity.position.x += normalizedDir.x * actualMove;
-        entity.position.y += normalizedDir.y * actualMove;
+        entity.position.x += move.x;
+        entity.position.y += move.y;
+    }
+
+    /**
+     * Desvio de obstáculos: se uma torre ou prédio (que não seja o alvo) está à frente,
+     * segue pela tangente do círculo do obstáculo (ampliado pelo raio da unidade)
+     * que mais se aproxima da direção desejada.
+     * @param entity Entidade em movimento
+     * @param direction Direção desejada (normalizada)
+     * @param obstacles Torres e prédios
+     * @returns Nova direção (normalizada)
+     */
+    private avoidObstacles(entity: PhysicsEntity, direction: Vector2D, obstacles: PhysicsEntity[]): Vector2D {
+        const lookAhead = entity.radius + entity.moveSpeed * this.config.avoidanceLookAhead;
+        const layer = entity.movementLayer ?? MovementLayer.GROUND;
+
+        let blocking: { toObstacle: Vector2D; clearance: number } | null = null;
+        let nearestAlong = Infinity;
+
+        for (const obstacle of obstacles) {
+            if (obstacle.id === entity.id || obstacle.id === entity.targetId) continue;
+            if ((obstacle.movementLayer ?? MovementLayer.GROUND) !== layer) continue;
+
+            const toObstacle = getVector(entity.position, obstacle.position);
+            const clearance = obstacle.radius + entity.radius + this.config.avoidanceMargin;
+            const along = toObstacle.x * direction.x + toObstacle.y * direction.y;
+
+            // Atrás da unidade ou além do alcance da antecipação
+            if (along < 0 || along - clearance > lookAhead) continue;
+
+            // A linha de movimento passa longe do obstáculo
+            const lateral = subtract(toObstacle, scale(direction, along));
+            if (magnitude(lateral) >= clearance) continue;
+
+            if (along < nearestAlong) {
+                nearestAlong = along;
+                blocking = { toObstacle, clearance };
+            }
+        }
+
+        if (!blocking) return direction;
+
+        const { toObstacle, clearance } = blocking;
+        const distance = magnitude(toObstacle);
+        const baseAngle = Math.atan2(toObstacle.y, toObstacle.x);
+        // Dentro da folga: contorna pela perpendicular; fora: pelas tangentes ao círculo
+        const offset = distance <= clearance ? Math.PI / 2 : Math.asin(clearance / distance);
+
+        const left = { x: Math.cos(baseAngle + offset), y: Math.sin(baseAngle + offset) };
+        const right = { x: Math.cos(baseAngle - offset), y: Math.sin(baseAngle - offset) };
+        const leftDot = left.x * direction.x + left.y * direction.y;
+        const rightDot = right.x * direction.x + right.y * direction.y;
+
+        return leftDot >= rightDot ? left : right;
+    }
+
+    /**
+     * Separação: afasta a unidade das vizinhas móveis do mesmo plano,
+     * mais forte quanto mais próximas (antes de chegarem a se sobrepor).
+     * @param entity Entidade em movimento
+     * @returns Vetor de separação (não normalizado)
+     */
+    private getSeparation(entity: PhysicsEntity): Vector2D {
+        const index = this.config.spatialIndex;
+        const layer = entity.movementLayer ?? MovementLayer.GROUND;
+        const reach = entity.radius + index.getMaxRadius() + this.config.separationDistance;
+        const separation = { x: 0, y: 0 };
+
+        for (const other of index.queryRadius(entity.position, reach)) {
+            if (other === entity || isImmovable(other)) continue;
+            if ((other.movementLayer ?? MovementLayer.GROUND) !== layer) continue;
+
+            const away = getVector(other.position, entity.position);
+            const distance = magnitude(away);
+            const comfort = entity.radius + other.radius + this.config.separationDistance;
+            if (distance >= comfort || distance < 0.0001) continue;
+
+            const strength = 1 - distance / comfort;
+            separation.x += (away.x / distance) * strength;
+            separation.y += (away.y / distance) * strength;
+        }
+
+        return separation;
     }
 
     /**
      * Resolve colisões círculo-círculo entre todas as entidades.
-     * Aplica repulsão suave proporcional à sobreposição.
-     * @param entities Lista de entidades
+     * Aplica repulsão suave proporcional à sobreposição, dividida na razão
+     * inversa das massas: a entidade mais pesada é menos empurrada.
+     * Os pares vêm do índice espacial, que é atualizado conforme as entidades são empurradas.
      * @param deltaTime Tempo em segundos
      */
-    private resolveCollisions<T extends PhysicsEntity>(
-        entities: T[],
-        deltaTime: number
-    ): void {
-        const count = entities.length;
-
-        for (let i = 0; i < count; i++) {
-            for (let j = i + 1; j < count; j++) {
-                const a = entities[i];
-                const b = entities[j];
-
-                const dx = b.position.x - a.position.x;
-                const dy = b.position.y - a.position.y;
-                const distSq = dx * dx + dy * dy;
-
-                const minDist = a.radius + b.radius;
-                const minDistSq = minDist * minDist;
-
-                // Colisão detectada
-                if (distSq < minDistSq && distSq > 0.0001) {
-                    const dist = Math.sqrt(distSq);
-                    const overlap = minDist - dist;
-
-                    // Vetor de separação normalizado
-                    const nx = dx / dist;
-                    const ny = dy / dist;
-
-                    // Força de repulsão proporcional à sobreposição
-                    const pushForce = overlap * this.config.separationForce * deltaTime;
-                    const halfPush = pushForce * 0.5;
-
-                    // Empurrar cada entidade para lados opostos (apenas se não forem torres)
-                    if (!a.isTower) {
-                        a.position.x -= nx * (b.isTower ? pushForce : halfPush);
-                        a.position.y -= ny * (b.isTower ? pushForce : halfPush);
-                    }
-                    if (!b.isTower) {
-                        b.position.x += nx * (a.isTower ? pushForce : halfPush);
-                        b.position.y += ny * (a.isTower ? pushForce : halfPush);
-                    }
-                }
+    private resolveCollisions(deltaTime: number): void {
+        const index = this.config.spatialIndex;
+
+        for (const [a, b] of index.getOverlappingPairs()) {
+            // Unidades aéreas passam por cima das terrestres (e vice-versa)
+            if ((a.movementLayer ?? MovementLayer.GROUND) !== (b.movementLayer ?? MovementLayer.GROUND)) {
+                continue;
+            }
 
+            const dx = b.position.x - a.position.x;
+            const dy = b.position.y - a.position.y;
+            const distSq = dx * dx + dy * dy;
+
+            const minDist = a.radius + b.radius;
+            const minDistSq = minDist * minDist;
+
+            // Colisão detectada
+            if (distSq < minDistSq && distSq > 0.0001) {
+                const dist = Math.sqrt(distSq);
+                const overlap = minDist - dist;
+
+                // Vetor de separação normalizado
+                const nx = dx / dist;
+                const ny = dy / dist;
+
+                // Força de repulsão proporcional à sobreposição
+                const pushForce = overlap * this.config.separationForce * deltaTime;
+
+                // Empurrar cada entidade para lados opostos (apenas se não forem torres ou prédios)
+                const aFixed = isImmovable(a);
+                const bFixed = isImmovable(b);
+                const aMass = a.mass ?? PHYSICS.DEFAULT_MASS;
+                const bMass = b.mass ?? PHYSICS.DEFAULT_MASS;
+                const aShare = bFixed ? 1 : bMass / (aMass + bMass);
+                const bShare = aFixed ? 1 : aMass / (aMass + bMass);
+                if (!aFixed) {
+                    a.position.x -= nx * pushForce * aShare;
+                    a.position.y -= ny * pushForce * aShare;
+                    index.update(a);
+                }
+                if (!bFixed) {
+                    b.position.x += nx * pushForce * bShare;
+                    b.position.y += ny * pushForce * bShare;
+                    index.update(b);
+                }
             }
         }
     }
@@ -0,0 +1,290 @@
+/**
+ * Magic Royale - Projectile System
+ *
+ * Projéteis disparados por atacantes à distância (arqueiras, magos, torres).
+ * O dano só é aplicado quando o projétil chega ao ponto de impacto.
+ *
+ * @module core/game/projectiles
+ */
+
+import { GameEntity } from './entity.js';
+import { getDistance } from './physics.js';
+import type { Vector2D } from './physics.js';
+import { getNextWaypoint } from './pathfinding.js';
+import { applySplashDamage } from './splash.js';
+import { applyStatusEffects } from './status-effects.js';
+import { getTagMultiplier, applyLifesteal } from './abilities.js';
+import type { AttackRoll } from './abilities.js';
+import { computeDamage, getDamageSource } from './damage.js';
+import type { DamageSource } from './damage.js';
+import type { StatusEffectDefinition } from '../types/status-effect.js';
+import { MovementLayer } from '../types/unit.js';
+import { DEFAULT_ARENA } from '../types/arena.js';
+import type { RiverDefinition } from '../types/arena.js';
+
+/**
+ * Configuração do sistema de projéteis.
+ */
+export interface ProjectileConfig {
+    /**
+     * Folga (unidades do grid) somada ao raio do alvo no impacto.
+     * Alvos que se afastaram mais que isso do ponto de impacto escapam.
+     */
+    hitTolerance: number;
+    /** Se true, o dano em área também atinge aliados */
+    splashFriendlyFire: boolean;
+    /** Se true, loga impactos no console */
+    logHits: boolean;
+    /** Rio da arena (alvos terrestres são previstos pela rota das pontes; null = sem rio) */
+    river: RiverDefinition | null;
+}
+
+const DEFAULT_PROJECTILE_CONFIG: ProjectileConfig = {
+    hitTolerance: 0.5,
+    splashFriendlyFire: false,
+    logHits: true,
+    river: DEFAULT_ARENA.river,
+};
+
+/** Trechos da rota seguidos na previsão (entrada da ponte, saída da ponte, destino) */
+const MAX_PREDICTED_LEGS = 3;
+
+/**
+ * Projétil em voo.
+ *
+ * Não é teleguiado: segue em linha reta até o ponto onde o alvo deveria
+ * estar na chegada (mirando à frente de alvos em movimento). Se o alvo
+ * morrer ou mudar de trajetória, o projétil erra — mas o dano em área
+ * ainda explode no ponto de impacto.
+ */
+export interface Projectile {
+    id: string;
+    ownerId: 'player1' | 'player2';
+    /** Entidade que disparou */
+    sourceId: string;
+    /** unitId de quem disparou (usado pelo renderer) */
+    sourceUnitId: string;
+    targetId: string;
+    position: Vector2D;
+    /** Ponto de impacto (posição prevista do alvo na chegada) */
+    impactPosition: Vector2D;
+    /** Velocidade em unidades por segundo */
+    speed: number;
+    /** Dano bruto no alvo principal (com crítico e bônus por tag, antes das resistências) */
+    damage: number;
+    /** Dano bruto no centro da área (com crítico, sem bônus por tag) */
+    splashDamage: number;
+    /** Tipo de dano e tags de quem disparou */
+    source: DamageSource;
+    critical: boolean;
+    /** Planos atingidos pelo dano em área */
+    targetLayers: MovementLayer[];
+    /** Raio do dano em área no impacto (0 = alvo único) */
+    splashRadius: number;
+    splashFalloff: number;
+    /** Efeitos aplicados ao alvo principal no acerto */
+    onHitEffects: StatusEffectDefinition[];
+}
+
+/**
+ * Sistema de projéteis.
+ *
+ * Responsabilidades:
+ * - Criar projéteis a partir de ataques à distância
+ * - Mover projéteis a cada tick (timestep fixo)
+ * - Resolver o dano na chegada
+ */
+export class ProjectileSystem {
+    private config: ProjectileConfig;
+    private projectiles: Projectile[] = [];
+    private projectileCounter = 0;
+
+    constructor(config?: Partial<ProjectileConfig>) {
+        this.config = { ...DEFAULT_PROJECTILE_CONFIG, ...config };
+    }
+
+    /**
+     * Dispara um projétil do atacante em direção à posição prevista do alvo.
+     * @param attacker Entidade que ataca
+     * @param target Alvo do ataque
+     * @param roll Dano rolado no ataque (default: dano atual, sem crítico)
+     */
+    public launch(
+        attacker: GameEntity,
+        target: GameEntity,
+        roll: AttackRoll = { damage: attacker.getDamage(), critical: false }
+    ): Projectile {
+        this.projectileCounter++;
+
+        const projectile: Projectile = {
+            id: `proj_${this.projectileCounter}`,
+            ownerId: attacker.ownerId,
+            sourceId: attacker.id,
+            sourceUnitId: attacker.unitId,
+            targetId: target.id,
+            position: { ...attacker.position },
+            impactPosition: this.predictImpactPosition(attacker, target),
+            speed: attacker.stats.projectileSpeed,
+            damage: roll.damage * getTagMultiplier(attacker, target),
+            splashDamage: roll.damage,
+            critical: roll.critical,
+            source: getDamageSource(attacker),
+            targetLayers: attacker.targetLayers,
+            splashRadius: attacker.stats.splashRadius,
+            splashFalloff: attacker.stats.splashFalloff,
+            onHitEffects: attacker.onHitEffects,
+        };
+
+        this.projectiles.push(projectile);
+        return projectile;
+    }
+
+    /**
+     * Prevê onde o alvo estará quando o projétil chegar, assumindo que
+     * ele mantém a velocidade atual e segue a mesma rota da física
+     * (unidades terrestres passam pelos waypoints das pontes).
+     */
+    private predictImpactPosition(attacker: GameEntity, target: GameEntity): Vector2D {
+        const position = { ...target.position };
+        const destination = target.targetPosition;
+        if (!target.isMoving || !destination || target.moveSpeed <= 0) {
+            return position;
+        }
+
+        const flightTime = getDistance(attacker.position, target.position) / attacker.stats.projectileSpeed;
+        let travel = target.moveSpeed * flightTime;
+
+        for (let leg = 0; leg < MAX_PREDICTED_LEGS && travel > 0; leg++) {
+            const waypoint = this.getNextStep(target, position, destination);
+            const length = getDistance(position, waypoint);
+            if (length === 0) break;
+
+            const advance = Math.min(length, travel);
+            position.x += ((waypoint.x - position.x) / length) * advance;
+            position.y += ((waypoint.y - position.y) / length) * advance;
+            travel -= advance;
+
+            if (waypoint === destination) break;
+        }
+        return position;
+    }
+
+    /**
+     * Próximo ponto da rota do alvo a partir de uma posição.
+     */
+    private getNextStep(target: GameEntity, from: Vector2D, destination: Vector2D): Vector2D {
+        if (!this.config.river || target.movementLayer !== MovementLayer.GROUND) {
+            return destination;
+        }
+        return getNextWaypoint(from, destination, this.config.river);
+    }
+
+    /**
+     * Move os projéteis e aplica o dano dos que chegaram.
+     * @param entities Lista de todas as entidades
+     * @param deltaTime Timestep em segundos
+     * @param tick Número do tick atual (para logging)
+     * @param tickTime Tempo simulado atual em ms (efeitos de status)
+     */
+    public update(entities: GameEntity[], deltaTime: number, tick: number, tickTime: number): void {
+        if (this.projectiles.length === 0) return;
+
+        const inFlight: Projectile[] = [];
+
+        for (const projectile of this.projectiles) {
+            const remaining = getDistance(projectile.position, projectile.impactPosition);
+            const step = projectile.speed * deltaTime;
+
+            if (step < remaining) {
+                const ratio = step / remaining;
+                projectile.position.x += (projectile.impactPosition.x - projectile.position.x) * ratio;
+                projectile.position.y += (projectile.impactPosition.y - projectile.position.y) * ratio;
+                inFlight.push(projectile);
+                continue;
+            }
+
+            projectile.position = { ...projectile.impactPosition };
+            this.resolveImpact(projectile, entities, tick, tickTime);
+        }
+
+        this.projectiles = inFlight;
+    }
+
+    /**
+     * Aplica o dano se o alvo ainda estiver vivo e no ponto de impacto,
+     * e o dano em área ao redor do impacto. Um alvo que escapou do acerto
+     * direto ainda pode ser pego pela área.
+     */
+    private resolveImpact(projectile: Projectile, entities: GameEntity[], tick: number, tickTime: number): void {
+        const hit = this.hitTarget(projectile, entities, tick, tickTime);
+
+        if (projectile.splashRadius <= 0) return;
+
+        const hits = applySplashDamage({
+            ownerId: projectile.ownerId,
+            sourceId: projectile.sourceId,
+            primaryTargetId: hit ? projectile.targetId : null,
+            position: projectile.impactPosition,
+            damage: projectile.splashDamage,
+            source: projectile.source,
+            targetLayers: projectile.targetLayers,
+            radius: projectile.splashRadius,
+            falloff: projectile.splashFalloff,
+            friendlyFire: this.config.splashFriendlyFire,
+        }, entities);
+
+        if (this.config.logHits && hits.length > 0) {
+            const summary = hits
+                .map((hit) => `${hit.entity.id} -${hit.damage.toFixed(0)}${hit.died ? ' 💀' : ''}`)
+                .join(', ');
+            console.log(`[Tick ${tick}] 💥 ${projectile.id} splash: ${summary}`);
+        }
+    }
+
+    /**
+     * Aplica o dano cheio no alvo principal, se ele ainda estiver no ponto de impacto.
+     * @returns true se o alvo principal foi atingido
+     */
+    private hitTarget(projectile: Projectile, entities: GameEntity[], tick: number, tickTime: number): boolean {
+        const target = entities.find((e) => e.id === projectile.targetId);
+        if (!target || !target.isAlive()) return false;
+
+        const distance = getDistance(target.position, projectile.impactPosition);
+        if (distance > target.radius + this.config.hitTolerance) {
+            if (this.config.logHits) {
+                console.log(`[Tick ${tick}] 💨 ${projectile.id} de ${projectile.sourceId} errou ${target.id}`);
+            }
+            return false;
+        }
+
+        const damage = computeDamage(projectile.damage, projectile.source, target);
+        const oldHp = target.stats.hp;
+        const died = target.takeDamage(damage);
+
+        // Roubo de vida de quem disparou, se ainda estiver vivo
+        const source = entities.find((e) => e.id === projectile.sourceId);
+        if (source && source.isAlive()) {
+            applyLifesteal(source, oldHp - target.stats.hp);
+        }
+
+        if (!died) {
+            applyStatusEffects(target, projectile.onHitEffects, tickTime);
+        }
+
+        if (this.config.logHits) {
+            const status = died ? '💀 MORTO' : `HP: ${oldHp}→${target.stats.hp}`;
+            console.log(
+                `[Tick ${tick}] 🏹 ${projectile.id} de ${projectile.sourceId} atingiu ${target.id} | ` +
+                `Dano: ${damage}${projectile.critical ? ' (CRÍTICO)' : ''} | ${status}`
+            );
+        }
+        return true;
+    }
+
+    /**
+     * Retorna os projéteis em voo.
+     */
+    public getProjectiles(): ReadonlyArray<Projectile> {
+        return this.projectiles;
+    }
+}
@@ -0,0 +1,38 @@
+/**
+ * Magic Royale - Deterministic Random
+ *
+ * Gerador pseudo-aleatório com seed (mulberry32).
+ * Toda aleatoriedade da simulação deve vir daqui para que a mesma
+ * seed e os mesmos inputs produzam sempre o mesmo resultado.
+ *
+ * @module core/game/random
+ */
+
+/**
+ * Função geradora de números em [0, 1).
+ */
+export type RandomFn = () => number;
+
+/**
+ * Cria um gerador determinístico a partir de uma seed.
+ * @param seed Seed inteira (32 bits)
+ * @returns Função que retorna números em [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomFn {
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Gera uma seed nova (não determinística) para uma partida.
+ */
+export function generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
@@ -0,0 +1,352 @@
+/**
+ * Magic Royale - Spatial Hash
+ *
+ * Índice espacial em grade uniforme usado como broadphase pela física
+ * (pares de colisão) e pelo combate (busca de alvos por raio).
+ * Evita o custo O(n²) de comparar todas as entidades entre si.
+ *
+ * As consultas devolvem as entidades na ordem em que foram indexadas,
+ * para que os resultados sejam idênticos aos de uma varredura linear
+ * (empates e ordem de resolução não mudam a simulação determinística).
+ *
+ * @module core/game/spatial-hash
+ */
+
+import type { Vector2D } from './physics.js';
+
+/**
+ * Interface mínima que uma entidade deve ter para ser indexada.
+ */
+export interface SpatialEntity {
+    position: Vector2D;
+    radius: number;
+}
+
+/** Melhor candidato de uma busca pelo mais próximo */
+interface NearestCandidate {
+    index: number;
+    distSq: number;
+}
+
+/** Tamanho padrão da célula (unidades do grid): próximo do dobro do raio de uma unidade */
+export const DEFAULT_CELL_SIZE = 4;
+
+/**
+ * Grade uniforme de células com as entidades cujo centro cai em cada uma.
+ * A grade cobre as posições do último rebuild; quem sai dela depois de um
+ * update fica numa lista à parte, verificada em toda consulta (caso raro).
+ *
+ * Responsabilidades:
+ * - Reconstruir o índice a partir da lista de entidades do tick
+ * - Atualizar a célula de uma entidade que se moveu
+ * - Consultar entidades dentro de um raio, a mais próxima e pares em colisão
+ */
+export class SpatialHash<T extends SpatialEntity> {
+    private readonly cellSize: number;
+    /** Entidades na ordem de indexação */
+    private items: T[] = [];
+    /** Célula atual de cada entidade (mesmo índice de `items`; -1 = fora da grade) */
+    private itemCells: number[] = [];
+    private indices: Map<T, number> = new Map();
+    /** Índices das entidades em cada célula (linha a linha) */
+    private cells: number[][] = [];
+    /** Índices das entidades fora da grade */
+    private outside: number[] = [];
+    /** Coordenada da primeira célula e dimensões da grade */
+    private originX = 0;
+    private originY = 0;
+    private columns = 0;
+    private rows = 0;
+    private maxRadius = 0;
+
+    constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+        this.cellSize = cellSize;
+    }
+
+    /**
+     * Número de entidades indexadas.
+     */
+    public get size(): number {
+        return this.items.length;
+    }
+
+    /**
+     * Maior raio entre as entidades indexadas (margem para buscas por contato).
+     */
+    public getMaxRadius(): number {
+        return this.maxRadius;
+    }
+
+    /**
+     * Remove todas as entidades do índice (as células são reaproveitadas).
+     */
+    public clear(): void {
+        this.items.length = 0;
+        this.itemCells.length = 0;
+        this.indices.clear();
+        for (const bucket of this.cells) {
+            bucket.length = 0;
+        }
+        this.outside.length = 0;
+        this.maxRadius = 0;
+    }
+
+    /**
+     * Reindexa todas as entidades, ajustando a grade às posições atuais.
+     * A ordem da lista define a ordem dos resultados.
+     * @param entities Entidades do tick
+     */
+    public rebuild(entities: readonly T[]): void {
+        this.clear();
+
+        let minX = Infinity;
+        let minY = Infinity;
+        let maxX = -Infinity;
+        let maxY = -Infinity;
+        for (const { position } of entities) {
+            minX = Math.min(minX, position.x);
+            minY = Math.min(minY, position.y);
+            maxX = Math.max(maxX, position.x);
+            maxY = Math.max(maxY, position.y);
+        }
+
+        if (entities.length === 0) {
+            this.columns = 0;
+            this.rows = 0;
+            return;
+        }
+
+        this.originX = Math.floor(minX / this.cellSize);
+        this.originY = Math.floor(minY / this.cellSize);
+        this.columns = Math.floor(maxX / this.cellSize) - this.originX + 1;
+        this.rows = Math.floor(maxY / this.cellSize) - this.originY + 1;
+        while (this.cells.length < this.columns * this.rows) {
+            this.cells.push([]);
+        }
+
+        for (const entity of entities) {
+            this.insert(entity);
+        }
+    }
+
+    /**
+     * Adiciona uma entidade ao fim da ordem de indexação.
+     * @param entity Entidade a indexar
+     */
+    public insert(entity: T): void {
+        if (this.indices.has(entity)) {
+            this.update(entity);
+            return;
+        }
+
+        const index = this.items.length;
+        const cell = this.getCell(entity.position);
+        this.items.push(entity);
+        this.itemCells.push(cell);
+        this.indices.set(entity, index);
+        this.getBucket(cell).push(index);
+        this.maxRadius = Math.max(this.maxRadius, entity.radius);
+    }
+
+    /**
+     * Move a entidade para a célula da sua posição atual (se mudou).
+     * @param entity Entidade já indexada
+     */
+    public update(entity: T): void {
+        const index = this.indices.get(entity);
+        if (index === undefined) return;
+
+        const previous = this.itemCells[index];
+        const cell = this.getCell(entity.position);
+        if (cell === previous) return;
+
+        const bucket = this.getBucket(previous);
+        bucket.splice(bucket.indexOf(index), 1);
+        this.getBucket(cell).push(index);
+        this.itemCells[index] = cell;
+    }
+
+    /**
+     * Retorna as entidades cujo centro está a até `radius` do ponto.
+     * @param center Centro da busca
+     * @param radius Raio da busca
+     * @param filter Critério adicional (opcional)
+     * @returns Entidades na ordem de indexação
+     */
+    public queryRadius(center: Vector2D, radius: number, filter?: (entity: T) => boolean): T[] {
+        const found: number[] = [];
+        if (radius < 0) return [];
+
+        const radiusSq = radius * radius;
+        const minX = Math.max(0, this.toColumn(center.x - radius));
+        const maxX = Math.min(this.columns - 1, this.toColumn(center.x + radius));
+        const minY = Math.max(0, this.toRow(center.y - radius));
+        const maxY = Math.min(this.rows - 1, this.toRow(center.y + radius));
+        for (let y = minY; y <= maxY; y++) {
+            for (let x = minX; x <= maxX; x++) {
+                this.collectWithin(this.cells[y * this.columns + x], center, radiusSq, filter, found);
+            }
+        }
+        this.collectWithin(this.outside, center, radiusSq, filter, found);
+
+        return found.sort((a, b) => a - b).map((index) => this.items[index]);
+    }
+
+    /**
+     * Retorna a entidade mais próxima do ponto, com centro a até `maxRadius`.
+     * Percorre anéis de células a partir do centro e para assim que nenhuma
+     * célula restante pode ter algo mais perto. Empate: a primeira na ordem de indexação.
+     * @param center Centro da busca
+     * @param maxRadius Distância máxima
+     * @param filter Critério adicional (opcional)
+     */
+    public findNearest(center: Vector2D, maxRadius: number, filter?: (entity: T) => boolean): T | null {
+        const best: NearestCandidate = { index: -1, distSq: maxRadius * maxRadius };
+        this.considerNearest(this.outside, center, filter, best);
+
+        const centerX = this.toColumn(center.x);
+        const centerY = this.toRow(center.y);
+        // Além do raio máximo ou da borda da grade não há mais o que visitar
+        const lastRing = Math.min(
+            Math.ceil(maxRadius / this.cellSize),
+            Math.max(centerX, this.columns - 1 - centerX, centerY, this.rows - 1 - centerY)
+        );
+
+        for (let ring = 0; ring <= lastRing; ring++) {
+            // Células do anel estão a pelo menos (ring - 1) células do centro
+            if (best.index !== -1 && Math.sqrt(best.distSq) <= (ring - 1) * this.cellSize) break;
+
+            const minY = Math.max(0, centerY - ring);
+            const maxY = Math.min(this.rows - 1, centerY + ring);
+            for (let y = minY; y <= maxY; y++) {
+                const edgeRow = y === centerY - ring || y === centerY + ring;
+                // Nas linhas internas do anel, só as duas colunas das bordas
+                const step = edgeRow ? 1 : 2 * ring;
+                for (let x = centerX - ring; x <= centerX + ring; x += Math.max(1, step)) {
+                    if (x < 0 || x >= this.columns) continue;
+                    this.considerNearest(this.cells[y * this.columns + x], center, filter, best);
+                }
+            }
+        }
+
+        return best.index === -1 ? null : this.items[best.index];
+    }
+
+    /**
+     * Pares de entidades cujos círculos se sobrepõem.
+     * Ordenados como no laço `for i { for j > i }` sobre a lista indexada.
+     */
+    public getOverlappingPairs(): [T, T][] {
+        // Cada par (i < j) é codificado como i * n + j: ordenar os códigos ordena por (i, j)
+        const count = this.items.length;
+        const found: number[] = [];
+
+        // Células vizinhas que podem conter um par em contato
+        const span = Math.max(1, Math.ceil((2 * this.maxRadius) / this.cellSize));
+
+        for (let y = 0; y < this.rows; y++) {
+            for (let x = 0; x < this.columns; x++) {
+                const bucket = this.cells[y * this.columns + x];
+                if (bucket.length === 0) continue;
+
+                // Metade da vizinhança (cada par de células é visitado uma única vez)
+                for (let dy = 0; dy <= span; dy++) {
+                    for (let dx = -span; dx <= span; dx++) {
+                        if (dy === 0 && dx < 0) continue;
+
+                        const nx = x + dx;
+                        const ny = y + dy;
+                        if (nx < 0 || nx >= this.columns || ny >= this.rows) continue;
+
+                        const other = this.cells[ny * this.columns + nx];
+                        for (let a = 0; a < bucket.length; a++) {
+                            for (let b = other === bucket ? a + 1 : 0; b < other.length; b++) {
+                                this.collectPair(bucket[a], other[b], found);
+                            }
+                        }
+                    }
+                }
+            }
+        }
+
+        // Entidades fora da grade: comparadas com todas
+        for (const i of this.outside) {
+            for (let j = 0; j < this.items.length; j++) {
+                if (j === i || (this.itemCells[j] === -1 && j < i)) continue;
+                this.collectPair(i, j, found);
+            }
+        }
+
+        found.sort((a, b) => a - b);
+        return found.map((code) => [this.items[Math.floor(code / count)], this.items[code % count]]);
+    }
+
+    private collectWithin(
+        bucket: number[],
+        center: Vector2D,
+        radiusSq: number,
+        filter: ((entity: T) => boolean) | undefined,
+        found: number[]
+    ): void {
+        for (const index of bucket) {
+            const entity = this.items[index];
+            const dx = entity.position.x - center.x;
+            const dy = entity.position.y - center.y;
+            if (dx * dx + dy * dy <= radiusSq && (!filter || filter(entity))) {
+                found.push(index);
+            }
+        }
+    }
+
+    private considerNearest(
+        bucket: number[],
+        center: Vector2D,
+        filter: ((entity: T) => boolean) | undefined,
+        best: NearestCandidate
+    ): void {
+        for (const index of bucket) {
+            const entity = this.items[index];
+            const dx = entity.position.x - center.x;
+            const dy = entity.position.y - center.y;
+            const distSq = dx * dx + dy * dy;
+            if (distSq > best.distSq || (distSq === best.distSq && best.index !== -1 && index > best.index)) continue;
+            if (filter && !filter(entity)) continue;
+
+            best.index = index;
+            best.distSq = distSq;
+        }
+    }
+
+    /** Registra o par (codificado como i * n + j, com i < j) se os círculos se sobrepõem */
+    private collectPair(i: number, j: number, found: number[]): void {
+        const a = this.items[i];
+        const b = this.items[j];
+        const minDist = a.radius + b.radius;
+        const dx = b.position.x - a.position.x;
+        const dy = b.position.y - a.position.y;
+        if (dx * dx + dy * dy < minDist * minDist) {
+            const count = this.items.length;
+            found.push(i < j ? i * count + j : j * count + i);
+        }
+    }
+
+    private toColumn(x: number): number {
+        return Math.floor(x / this.cellSize) - this.originX;
+    }
+
+    private toRow(y: number): number {
+        return Math.floor(y / this.cellSize) - this.originY;
+    }
+
+    /** Índice da célula da posição (-1 se fora da grade) */
+    private getCell(position: Vector2D): number {
+        const x = this.toColumn(position.x);
+        const y = this.toRow(position.y);
+        if (x < 0 || y < 0 || x >= this.columns || y >= this.rows) return -1;
+        return y * this.columns + x;
+    }
+
+    private getBucket(cell: number): number[] {
+        return cell === -1 ? this.outside : this.cells[cell];
+    }
+}
@@ -0,0 +1,128 @@
+/**
+ * Magic Royale - Spell System
+ *
+ * Resolve feitiços: cartas que atingem uma área do mapa
+ * sem criar uma entidade.
+ *
+ * @module core/game/spells
+ */
+
+import { GameEntity } from './entity.js';
+import { getDistance } from './physics.js';
+import type { Vector2D } from './physics.js';
+import { applyStatusEffects } from './status-effects.js';
+import { computeDamage } from './damage.js';
+import { DamageType } from '../types/damage.js';
+import { SpellTarget } from '../types/spell.js';
+import type { SpellDefinition } from '../types/spell.js';
+
+/**
+ * Configuração do sistema de feitiços.
+ */
+export interface SpellConfig {
+    /** Se true, loga cada feitiço no console */
+    logCasts: boolean;
+}
+
+const DEFAULT_SPELL_CONFIG: SpellConfig = {
+    logCasts: true,
+};
+
+/**
+ * Resultado da conjuração de um feitiço.
+ */
+export interface SpellCastResult {
+    /** IDs das entidades atingidas */
+    affected: string[];
+    /** IDs das entidades mortas pelo feitiço */
+    killed: string[];
+}
+
+/**
+ * Sistema de feitiços autoritativo.
+ *
+ * Responsabilidades:
+ * - Selecionar entidades dentro do raio do feitiço
+ * - Aplicar dano (reduzido em torres), cura e efeitos de status
+ */
+export class SpellSystem {
+    private config: SpellConfig;
+
+    constructor(config?: Partial<SpellConfig>) {
+        this.config = { ...DEFAULT_SPELL_CONFIG, ...config };
+    }
+
+    /**
+     * Conjura um feitiço em um ponto do mapa.
+     * @param spell Definição do feitiço
+     * @param ownerId Dono do feitiço
+     * @param position Centro da área de efeito
+     * @param entities Lista de todas as entidades
+     * @param tickTime Tempo simulado atual em ms
+     * @param tick Número do tick atual (para logging)
+     */
+    public cast(
+        spell: SpellDefinition,
+        ownerId: 'player1' | 'player2',
+        position: Vector2D,
+        entities: GameEntity[],
+        tickTime: number,
+        tick: number
+    ): SpellCastResult {
+        const result: SpellCastResult = { affected: [], killed: [] };
+        const targets = this.findTargets(spell, ownerId, position, entities);
+        const source = { damageType: spell.damageType ?? DamageType.MAGIC, tags: [] };
+
+        for (const target of targets) {
+            result.affected.push(target.id);
+
+            if (spell.damage) {
+                const multiplier = target.isTower ? (spell.towerDamageMultiplier ?? 1) : 1;
+                if (target.takeDamage(computeDamage(spell.damage * multiplier, source, target))) {
+                    result.killed.push(target.id);
+                    continue;
+                }
+            }
+
+            if (spell.heal) {
+                target.heal(spell.heal);
+            }
+
+            if (spell.effects) {
+                applyStatusEffects(target, spell.effects, tickTime);
+            }
+        }
+
+        if (this.config.logCasts) {
+            console.log(
+                `[Tick ${tick}] 🔮 ${ownerId} conjurou ${spell.spellId} em ` +
+                `(${position.x.toFixed(1)}, ${position.y.toFixed(1)}) | ` +
+                `Atingidos: ${result.affected.length} | Mortos: ${result.killed.length}`
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Seleciona as entidades vivas dentro da área que o feitiço afeta.
+     * Considera o raio da entidade (acerta se a borda estiver dentro da área).
+     */
+    private findTargets(
+        spell: SpellDefinition,
+        ownerId: 'player1' | 'player2',
+        position: Vector2D,
+        entities: GameEntity[]
+    ): GameEntity[] {
+        return entities.filter((entity) => {
+            if (!entity.isAlive()) return false;
+            if (entity.isTower && !spell.affectsTowers) return false;
+
+            const isAlly = entity.ownerId === ownerId;
+            if (spell.target === SpellTarget.ENEMIES && isAlly) return false;
+            if (spell.target === SpellTarget.ALLIES && !isAlly) return false;
+
+            return getDistance(position, entity.position) - entity.radius <= spell.radius;
+        });
+    }
+}
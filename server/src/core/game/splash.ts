@@ -0,0 +1,92 @@
+/**
+ * Magic Royale - Splash Damage
+ *
+ * Dano em área: ataques com splashRadius atingem todos os alvos
+ * ao redor do ponto de impacto, com dano decrescente até a borda.
+ *
+ * @module core/game/splash
+ */
+
+import { GameEntity } from './entity.js';
+import { getDistance } from './physics.js';
+import type { Vector2D } from './physics.js';
+import { computeDamage } from './damage.js';
+import type { DamageSource } from './damage.js';
+import type { MovementLayer } from '../types/unit.js';
+
+/**
+ * Parâmetros de um impacto em área.
+ */
+export interface SplashImpact {
+    /** Dono do ataque */
+    ownerId: 'player1' | 'player2';
+    /** Entidade que atacou (nunca é atingida pelo próprio splash) */
+    sourceId: string;
+    /** Alvo principal, que já recebeu o dano cheio (null = o acerto direto errou) */
+    primaryTargetId: string | null;
+    /** Centro da área */
+    position: Vector2D;
+    /** Dano cheio (no centro), antes das resistências */
+    damage: number;
+    /** Tipo de dano e tags de quem atacou */
+    source: DamageSource;
+    /** Planos atingidos (quem não ataca unidades aéreas também não as atinge em área) */
+    targetLayers: MovementLayer[];
+    /** Raio da área */
+    radius: number;
+    /** Fração do dano perdida na borda (0..1) */
+    falloff: number;
+    /** Se true, aliados dentro da área também são atingidos */
+    friendlyFire: boolean;
+}
+
+/**
+ * Entidade atingida pelo splash.
+ */
+export interface SplashHit {
+    entity: GameEntity;
+    damage: number;
+    died: boolean;
+}
+
+/**
+ * Calcula o dano do splash a uma distância do centro.
+ * Decai linearmente de `damage` no centro até `damage * (1 - falloff)` na borda.
+ */
+export function getSplashDamage(damage: number, distance: number, radius: number, falloff: number): number {
+    if (radius <= 0) return damage;
+
+    const ratio = Math.min(1, Math.max(0, distance / radius));
+    const clampedFalloff = Math.min(1, Math.max(0, falloff));
+    return damage * (1 - clampedFalloff * ratio);
+}
+
+/**
+ * Aplica o dano em área ao redor do ponto de impacto.
+ * Considera o raio da entidade (atinge se a borda estiver dentro da área).
+ * O alvo principal e o próprio atacante são ignorados.
+ * @param impact Parâmetros do impacto
+ * @param entities Lista de todas as entidades
+ * @returns Entidades atingidas pelo splash
+ */
+export function applySplashDamage(impact: SplashImpact, entities: GameEntity[]): SplashHit[] {
+    const hits: SplashHit[] = [];
+    if (impact.radius <= 0) return hits;
+
+    for (const entity of entities) {
+        if (!entity.isAlive()) continue;
+        if (entity.id === impact.sourceId || entity.id === impact.primaryTargetId) continue;
+        if (entity.ownerId === impact.ownerId && !impact.friendlyFire) continue;
+        if (!impact.targetLayers.includes(entity.movementLayer)) continue;
+
+        const distance = Math.max(0, getDistance(impact.position, entity.position) - entity.radius);
+        if (distance > impact.radius) continue;
+
+        const rawDamage = getSplashDamage(impact.damage, distance, impact.radius, impact.falloff);
+        const damage = computeDamage(rawDamage, impact.source, entity);
+        const died = entity.takeDamage(damage);
+        hits.push({ entity, damage, died });
+    }
+
+    return hits;
+}
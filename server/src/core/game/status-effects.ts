@@ -0,0 +1,198 @@
+/**
+ * Magic Royale - Status Effect System
+ *
+ * Efeitos temporários em entidades: queimadura (dano por segundo),
+ * lentidão, congelamento e atordoamento.
+ *
+ * @module core/game/status-effects
+ */
+
+import { GameEntity } from './entity.js';
+import type { ActiveStatusEffect } from './entity.js';
+import { computeDamage } from './damage.js';
+import type { DamageSource } from './damage.js';
+import { StatusEffectType } from '../types/status-effect.js';
+import { DamageType } from '../types/damage.js';
+import type { StatusEffectDefinition } from '../types/status-effect.js';
+
+/**
+ * Como uma nova aplicação interage com um efeito do mesmo tipo já ativo.
+ */
+export enum StatusStacking {
+    /** Soma um acúmulo (até o máximo) e renova a duração */
+    STACK = 'stack',
+    /** Mantém a maior intensidade e o maior prazo */
+    STRONGEST = 'strongest',
+    /** Mantém o maior prazo */
+    REFRESH = 'refresh',
+}
+
+/**
+ * Regra de acúmulo de cada tipo de efeito.
+ */
+export const STATUS_EFFECT_STACKING: Record<StatusEffectType, StatusStacking> = {
+    [StatusEffectType.BURN]: StatusStacking.STACK,
+    [StatusEffectType.SLOW]: StatusStacking.STRONGEST,
+    [StatusEffectType.FREEZE]: StatusStacking.REFRESH,
+    [StatusEffectType.STUN]: StatusStacking.REFRESH,
+};
+
+/** Queimadura causa dano de fogo sem origem (não recebe bônus por tag do atacante) */
+const BURN_DAMAGE_SOURCE: DamageSource = { damageType: DamageType.FIRE, tags: [] };
+
+/**
+ * Aplica um efeito de status a uma entidade, seguindo a regra de acúmulo do tipo.
+ * @param entity Entidade afetada
+ * @param definition Efeito a aplicar
+ * @param tickTime Tempo simulado atual em ms
+ */
+export function applyStatusEffect(
+    entity: GameEntity,
+    definition: StatusEffectDefinition,
+    tickTime: number
+): void {
+    if (!entity.isAlive() || definition.duration <= 0) return;
+
+    const expiresAt = tickTime + definition.duration * 1000;
+    const magnitude = Math.max(0, definition.magnitude ?? 0);
+    const current = entity.hasStatusEffect(definition.type, tickTime)
+        ? entity.statusEffects.get(definition.type)!
+        : null;
+
+    let next: ActiveStatusEffect;
+
+    if (!current) {
+        next = { type: definition.type, expiresAt, magnitude, stacks: 1 };
+    } else {
+        switch (STATUS_EFFECT_STACKING[definition.type]) {
+            case StatusStacking.STACK:
+                next = {
+                    ...current,
+                    expiresAt: Math.max(current.expiresAt, expiresAt),
+                    magnitude: Math.max(current.magnitude, magnitude),
+                    stacks: Math.min(current.stacks + 1, Math.max(1, definition.maxStacks ?? 1)),
+                };
+                break;
+            case StatusStacking.STRONGEST:
+                next = {
+                    ...current,
+                    expiresAt: Math.max(current.expiresAt, expiresAt),
+                    magnitude: Math.max(current.magnitude, magnitude),
+                };
+                break;
+            case StatusStacking.REFRESH:
+                next = { ...current, expiresAt: Math.max(current.expiresAt, expiresAt) };
+                break;
+        }
+    }
+
+    if (definition.type === StatusEffectType.SLOW) {
+        next.magnitude = Math.min(1, next.magnitude);
+    }
+
+    entity.statusEffects.set(definition.type, next);
+
+    // Congelamento e atordoamento interrompem o movimento na hora
+    if (definition.type === StatusEffectType.FREEZE || definition.type === StatusEffectType.STUN) {
+        entity.isMoving = false;
+    }
+
+    // Atordoamento interrompe o ataque em preparo (reinicia o cooldown)
+    if (definition.type === StatusEffectType.STUN && !current) {
+        entity.lastAttackTime = tickTime;
+    }
+}
+
+/**
+ * Aplica uma lista de efeitos a uma entidade.
+ * @param entity Entidade afetada
+ * @param definitions Efeitos a aplicar
+ * @param tickTime Tempo simulado atual em ms
+ */
+export function applyStatusEffects(
+    entity: GameEntity,
+    definitions: StatusEffectDefinition[],
+    tickTime: number
+): void {
+    for (const definition of definitions) {
+        applyStatusEffect(entity, definition, tickTime);
+    }
+}
+
+/**
+ * Configuração do sistema de efeitos de status.
+ */
+export interface StatusEffectConfig {
+    /** Se true, loga mortes por dano contínuo no console */
+    logEffects: boolean;
+}
+
+const DEFAULT_STATUS_EFFECT_CONFIG: StatusEffectConfig = {
+    logEffects: true,
+};
+
+/**
+ * Sistema de efeitos de status.
+ *
+ * Responsabilidades:
+ * - Expirar efeitos vencidos
+ * - Aplicar o dano contínuo da queimadura
+ * - Ajustar a velocidade de movimento (lentidão e sinergias)
+ */
+export class StatusEffectSystem {
+    private config: StatusEffectConfig;
+
+    constructor(config?: Partial<StatusEffectConfig>) {
+        this.config = { ...DEFAULT_STATUS_EFFECT_CONFIG, ...config };
+    }
+
+    /**
+     * Atualiza os efeitos de todas as entidades.
+     * @param entities Lista de todas as entidades
+     * @param tickTime Tempo simulado atual em ms
+     * @param deltaTime Timestep em segundos
+     * @param tick Número do tick atual (para logging)
+     */
+    public update(entities: GameEntity[], tickTime: number, deltaTime: number, tick: number): void {
+        for (const entity of entities) {
+            if (!entity.isAlive()) continue;
+
+            // Expirar efeitos vencidos
+            for (const [type, effect] of entity.statusEffects) {
+                if (tickTime >= effect.expiresAt) {
+                    entity.statusEffects.delete(type);
+                }
+            }
+
+            // Queimadura: dano proporcional ao timestep
+            const burn = entity.statusEffects.get(StatusEffectType.BURN);
+            if (burn && burn.magnitude > 0) {
+                const burnDamage = computeDamage(burn.magnitude * burn.stacks * deltaTime, BURN_DAMAGE_SOURCE, entity);
+                const died = entity.takeDamage(burnDamage);
+                if (died) {
+                    if (this.config.logEffects) {
+                        console.log(`[Tick ${tick}] 🔥 ${entity.id} morreu queimado`);
+                    }
+                    continue;
+                }
+            }
+
+            entity.moveSpeed = entity.getMoveSpeed(tickTime);
+        }
+    }
+
+    /**
+     * Retorna os tipos de efeito ativos em uma entidade (para os deltas do tick).
+     * @param entity Entidade consultada
+     * @param tickTime Tempo simulado atual em ms
+     */
+    public getActiveTypes(entity: GameEntity, tickTime: number): StatusEffectType[] {
+        const types: StatusEffectType[] = [];
+        for (const type of entity.statusEffects.keys()) {
+            if (entity.hasStatusEffect(type, tickTime)) {
+                types.push(type);
+            }
+        }
+        return types;
+    }
+}
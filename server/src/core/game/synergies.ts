@@ -0,0 +1,118 @@
+/**
+ * Magic Royale - Synergy System
+ *
+ * Bônus de afinidade: unidades vivas do mesmo jogador que compartilham
+ * uma tag ativam regras do catálogo (ex: 3+ SOLAR concedem aura de dano).
+ *
+ * @module core/game/synergies
+ */
+
+import { GameEntity, NO_SYNERGY } from './entity.js';
+import type { SynergyModifiers } from './entity.js';
+import { getDistance } from './physics.js';
+import { SynergyBonusType, SynergyScope } from '../types/synergy.js';
+import type { SynergyDefinition } from '../types/synergy.js';
+import { loadSynergies } from '../../data/loader.js';
+import type { ActiveSynergyData } from '../net/protocol.js';
+
+/**
+ * Configuração do sistema de sinergias.
+ */
+export interface SynergyConfig {
+    /** Regras avaliadas (default: catálogo compartilhado) */
+    synergies: SynergyDefinition[];
+}
+
+/**
+ * Sinergias ativas de cada jogador.
+ */
+export interface ActiveSynergies {
+    player1: ActiveSynergyData[];
+    player2: ActiveSynergyData[];
+}
+
+/** Campo de SynergyModifiers alterado por cada tipo de bônus */
+const BONUS_FIELDS: Record<SynergyBonusType, keyof SynergyModifiers> = {
+    [SynergyBonusType.DAMAGE]: 'damage',
+    [SynergyBonusType.ATTACK_SPEED]: 'attackSpeed',
+    [SynergyBonusType.MOVE_SPEED]: 'moveSpeed',
+    [SynergyBonusType.DAMAGE_REDUCTION]: 'damageReduction',
+};
+
+/**
+ * Sistema de sinergias.
+ *
+ * Responsabilidades:
+ * - Contar unidades vivas por tag de cada jogador
+ * - Ativar as regras do catálogo (globais ou por proximidade)
+ * - Recalcular os bônus de sinergia das entidades a cada tick
+ */
+export class SynergySystem {
+    private config: SynergyConfig;
+
+    constructor(config?: Partial<SynergyConfig>) {
+        this.config = {
+            synergies: [...loadSynergies().values()],
+            ...config,
+        };
+    }
+
+    /**
+     * Reavalia as sinergias e reaplica os bônus em todas as unidades.
+     * @param entities Lista de todas as entidades
+     * @returns Sinergias ativas de cada jogador
+     */
+    public update(entities: GameEntity[]): ActiveSynergies {
+        const units = entities.filter((e) => !e.isStructure() && e.isAlive());
+
+        for (const entity of entities) {
+            entity.synergy = NO_SYNERGY;
+        }
+
+        return {
+            player1: this.evaluatePlayer(units.filter((e) => e.ownerId === 'player1')),
+            player2: this.evaluatePlayer(units.filter((e) => e.ownerId === 'player2')),
+        };
+    }
+
+    /**
+     * Avalia as regras para as unidades de um jogador.
+     */
+    private evaluatePlayer(allies: GameEntity[]): ActiveSynergyData[] {
+        const active: ActiveSynergyData[] = [];
+
+        for (const synergy of this.config.synergies) {
+            const recipients = this.findRecipients(synergy, allies);
+            if (recipients.length === 0) continue;
+
+            const field = BONUS_FIELDS[synergy.bonus.type];
+            for (const entity of recipients) {
+                // Bônus de sinergias diferentes somam
+                entity.synergy = { ...entity.synergy, [field]: entity.synergy[field] + synergy.bonus.value };
+            }
+
+            active.push({ synergyId: synergy.synergyId, affected: recipients.length });
+        }
+
+        return active;
+    }
+
+    /**
+     * Retorna as unidades que recebem o bônus (vazio se a sinergia está inativa).
+     */
+    private findRecipients(synergy: SynergyDefinition, allies: GameEntity[]): GameEntity[] {
+        const tagged = allies.filter((e) => e.tags.includes(synergy.tag));
+
+        // Global: basta o número mínimo de unidades com a tag em campo
+        // Local: cada unidade precisa de `minUnits` com a tag (incluindo ela) no raio
+        const qualifying = synergy.radius === undefined
+            ? (tagged.length >= synergy.minUnits ? tagged : [])
+            : tagged.filter((unit) =>
+                tagged.filter((other) => getDistance(unit.position, other.position) <= synergy.radius!).length
+                    >= synergy.minUnits
+            );
+
+        if (qualifying.length === 0) return [];
+        return synergy.scope === SynergyScope.ALLIES ? allies : qualifying;
+    }
+}
@@ -3,6 +3,9 @@ export {
     S2CMessageType,
     ErrorCode,
     EntityStateCode,
+    TowerActivationReason,
+    MatchPhase,
+    MatchOutcome,
     stateToCode,
     serializeMessage,
     parseC2SMessage,
@@ -24,8 +27,19 @@ export type {
     S2CEntitySpawned,
     EntityDelta,
     TowerDelta,
+    ProjectileDelta,
     GameTickPayload,
     S2CGameTick,
+    HandCardData,
+    S2CHandUpdate,
+    S2CTowerActivated,
+    CrownCount,
+    S2CMatchPhase,
+    S2CManaPhase,
+    S2CSpellCast,
+    ActiveSynergyData,
+    S2CSynergyUpdate,
+    S2CActionAck,
     S2CMatchEnd,
     S2CError,
     S2CLoginSuccess,
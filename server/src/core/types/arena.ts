@@ -0,0 +1,2 @@
+export type { ArenaDefinition, ArenaZone, ArenaTowerPlacement, RiverDefinition, BridgeDefinition } from '@crom/shared';
+export { DEFAULT_ARENA, getArenaBounds, isInsideZone } from '@crom/shared';
@@ -0,0 +1 @@
+export type { BuildingDefinition, BuildingBaseStats, BuildingSpawner } from '@crom/shared';
@@ -0,0 +1,2 @@
+export type { TagDamageModifier } from '@crom/shared';
+export { DamageType } from '@crom/shared';
@@ -8,5 +8,12 @@
 
 export * from './tags.js';
 export * from './unit.js';
+export * from './damage.js';
 export * from './item.js';
+export * from './tower.js';
+export * from './building.js';
+export * from './arena.js';
+export * from './spell.js';
+export * from './status-effect.js';
+export * from './synergy.js';
 export * from './deck.js';
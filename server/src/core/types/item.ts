@@ -1,3 +1,2 @@
-export type { Item, ItemStatsModifier, ItemRequirements } from '@crom/shared';
-export { itemHasAllowedTagRequirement, isTagForbiddenByItem } from '@crom/shared';
-
+export type { Item, ItemStatsModifier, ItemRequirements, ItemAbility } from '@crom/shared';
+export { itemHasAllowedTagRequirement, isTagForbiddenByItem, ItemAbilityType } from '@crom/shared';
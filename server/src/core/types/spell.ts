@@ -0,0 +1,2 @@
+export type { SpellDefinition } from '@crom/shared';
+export { SpellTarget, CardKind } from '@crom/shared';
@@ -0,0 +1,2 @@
+export type { StatusEffectDefinition } from '@crom/shared';
+export { StatusEffectType } from '@crom/shared';
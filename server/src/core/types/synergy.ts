@@ -0,0 +1,2 @@
+export type { SynergyDefinition } from '@crom/shared';
+export { SynergyBonusType, SynergyScope } from '@crom/shared';
@@ -0,0 +1,2 @@
+export type { TowerDefinition, TowerBaseStats } from '@crom/shared';
+export { TowerRole } from '@crom/shared';
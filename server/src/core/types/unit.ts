@@ -1,3 +1,3 @@
-export type { UnitBase, UnitBaseStats, UnitSlots } from '@crom/shared';
-export { unitHasSlot, unitHasTag } from '@crom/shared';
+export type { UnitBase, UnitBaseStats, UnitSlots, UnitFormation, DeathEffect, EffectiveUnitStats } from '@crom/shared';
+export { MovementLayer, TargetingPolicy, unitHasSlot, unitHasTag, getUnitTargetLayers, getUnitDeployTime, getUnitCollisionRadius, getUnitMass } from '@crom/shared';
 
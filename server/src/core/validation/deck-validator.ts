@@ -9,7 +9,8 @@
  * @module core/validation/deck-validator
  */
 
-import type { UnitBase } from '../types/unit.js';
+import { PHYSICS } from '@crom/shared';
+import type { UnitBase, EffectiveUnitStats } from '../types/unit.js';
 import type { Item } from '../types/item.js';
 import type {
     PlayerDeck,
@@ -18,10 +19,10 @@ import type {
     ValidationError,
     CardConfig,
 } from '../types/deck.js';
-import { ValidationErrorCode, SlotType } from '../types/index.js';
-import { unitHasSlot, unitHasTag } from '../types/unit.js';
+import { ValidationErrorCode, SlotType, DamageType } from '../types/index.js';
+import { unitHasSlot, unitHasTag, getUnitMass } from '../types/unit.js';
 import { itemHasAllowedTagRequirement, isTagForbiddenByItem } from '../types/item.js';
-import { getUnitById, getItemById } from '../../data/loader.js';
+import { getUnitById, getItemById, getSpellById, getBuildingById } from '../../data/loader.js';
 
 /**
  * Resultado de validação de um equipamento individual.
@@ -117,6 +118,50 @@ export function validateCard(
 ): ValidationError[] {
     const errors: ValidationError[] = [];
 
+    // Feitiços não possuem slots de equipamento
+    const spell = getSpellById(card.baseUnitId);
+    if (spell) {
+        if (inventory && !inventory.unlockedUnits.includes(card.baseUnitId)) {
+            errors.push({
+                code: ValidationErrorCode.UNIT_NOT_OWNED,
+                message: `Você não possui o feitiço "${spell.name}".`,
+                cardIndex,
+                unitId: card.baseUnitId,
+            });
+        }
+        if (card.equippedItems.length > 0) {
+            errors.push({
+                code: ValidationErrorCode.SPELL_CANNOT_EQUIP,
+                message: `O feitiço "${spell.name}" não pode receber equipamentos.`,
+                cardIndex,
+                unitId: card.baseUnitId,
+            });
+        }
+        return errors;
+    }
+
+    // Prédios também não possuem slots de equipamento
+    const building = getBuildingById(card.baseUnitId);
+    if (building) {
+        if (inventory && !inventory.unlockedUnits.includes(card.baseUnitId)) {
+            errors.push({
+                code: ValidationErrorCode.UNIT_NOT_OWNED,
+                message: `Você não possui o prédio "${building.name}".`,
+                cardIndex,
+                unitId: card.baseUnitId,
+            });
+        }
+        if (card.equippedItems.length > 0) {
+            errors.push({
+                code: ValidationErrorCode.BUILDING_CANNOT_EQUIP,
+                message: `O prédio "${building.name}" não pode receber equipamentos.`,
+                cardIndex,
+                unitId: card.baseUnitId,
+            });
+        }
+        return errors;
+    }
+
     // 1. Buscar unidade no catálogo
     const unit = getUnitById(card.baseUnitId);
     if (!unit) {
@@ -212,18 +257,107 @@ export function validateDeck(
     }
 
     // Validar cada carta do deck
+    const effectiveStats: (EffectiveUnitStats | null)[] = [];
     for (let i = 0; i < deck.cards.length; i++) {
         const card = deck.cards[i];
         const cardErrors = validateCard(card, i, inventory);
         errors.push(...cardErrors);
+
+        effectiveStats.push(
+            cardErrors.length === 0
+                ? calculateEffectiveStatsByIds(card.baseUnitId, card.equippedItems)
+                : null
+        );
     }
 
     return {
         isValid: errors.length === 0,
         errors,
+        effectiveStats,
+    };
+}
+
+/**
+ * Calcula os stats finais de uma unidade com os itens equipados.
+ * 
+ * Stats = Stats Base + Soma(Modificadores de cada Item), com valores mínimos.
+ * O tipo de dano do último item que o define substitui o da unidade.
+ * 
+ * @param unit - Unidade base
+ * @param items - Lista de itens equipados
+ * @returns Stats efetivos
+ */
+export function calculateEffectiveStats(unit: UnitBase, items: Item[]): EffectiveUnitStats {
+    const base = unit.baseStats;
+    let health = base.health;
+    let damage = base.damage;
+    let attackSpeed = base.attackSpeed;
+    let range = base.range;
+    let moveSpeed = base.moveSpeed;
+    let splashRadius = base.splashRadius ?? 0;
+    let splashFalloff = base.splashFalloff ?? 0;
+    let armor = base.armor ?? 0;
+    let magicResist = base.magicResist ?? 0;
+    let mass = getUnitMass(unit);
+    let damageType = base.damageType ?? DamageType.PHYSICAL;
+
+    for (const item of items) {
+        const mod = item.statsModifier;
+        health += mod.health ?? 0;
+        damage += mod.damage ?? 0;
+        attackSpeed += mod.attackSpeed ?? 0;
+        range += mod.range ?? 0;
+        moveSpeed += mod.moveSpeed ?? 0;
+        splashRadius += mod.splashRadius ?? 0;
+        splashFalloff += mod.splashFalloff ?? 0;
+        armor += mod.armor ?? 0;
+        magicResist += mod.magicResist ?? 0;
+        mass += mod.mass ?? 0;
+        damageType = mod.damageType ?? damageType;
+    }
+
+    // Garantir valores mínimos
+    return {
+        health: Math.max(1, health),
+        damage: Math.max(1, damage),
+        attackSpeed: Math.max(0.1, attackSpeed),
+        range: Math.max(0.5, range),
+        aggroRange: Math.max(1.0, base.aggroRange),
+        moveSpeed: Math.max(0.5, moveSpeed),
+        projectileSpeed: base.projectileSpeed ?? 0,
+        splashRadius: Math.max(0, splashRadius),
+        splashFalloff: Math.min(1, Math.max(0, splashFalloff)),
+        damageType,
+        armor: Math.max(0, armor),
+        magicResist: Math.max(0, magicResist),
+        mass: Math.max(PHYSICS.MIN_MASS, mass),
     };
 }
 
+/**
+ * Calcula os stats finais de uma carta a partir dos IDs.
+ * 
+ * @param unitId - ID da unidade
+ * @param itemIds - Lista de IDs dos itens
+ * @returns Stats efetivos ou null se algum ID for inválido (ou for um feitiço)
+ */
+export function calculateEffectiveStatsByIds(
+    unitId: string,
+    itemIds: string[]
+): EffectiveUnitStats | null {
+    const unit = getUnitById(unitId);
+    if (!unit) return null;
+
+    const items: Item[] = [];
+    for (const itemId of itemIds) {
+        const item = getItemById(itemId);
+        if (!item) return null;
+        items.push(item);
+    }
+
+    return calculateEffectiveStats(unit, items);
+}
+
 /**
  * Calcula o custo total de mana de uma carta.
  * 
@@ -246,8 +380,9 @@ export function calculateCardCost(unit: UnitBase, items: Item[]): number {
 /**
  * Calcula o custo de uma carta a partir dos IDs.
  * Útil quando você só tem os IDs e não os objetos completos.
+ * Feitiços e prédios custam apenas o próprio manaCost (não aceitam itens).
  * 
- * @param unitId - ID da unidade
+ * @param unitId - ID da unidade, do feitiço ou do prédio
  * @param itemIds - Lista de IDs dos itens
  * @returns Custo total ou null se algum ID for inválido
  */
@@ -255,6 +390,16 @@ export function calculateCardCostByIds(
     unitId: string,
     itemIds: string[]
 ): number | null {
+    const spell = getSpellById(unitId);
+    if (spell) {
+        return itemIds.length === 0 ? spell.manaCost : null;
+    }
+
+    const building = getBuildingById(unitId);
+    if (building) {
+        return itemIds.length === 0 ? building.manaCost : null;
+    }
+
     const unit = getUnitById(unitId);
     if (!unit) return null;
 
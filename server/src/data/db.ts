@@ -50,8 +50,8 @@ export class SimpleDB {
         // Seed Players
         if (!fs.existsSync(playersPath)) {
             const seedPlayers: PlayerModel[] = [
-                { id: 'hero_1', name: 'Hero One', inventory: ['archer_base', 'knight_base', 'mage_solar'] },
-                { id: 'hero_2', name: 'Hero Two', inventory: ['archer_base', 'knight_base', 'mage_solar'] }
+                { id: 'hero_1', name: 'Hero One', inventory: ['archer_base', 'knight_base', 'mage_solar', 'giant_base', 'skeletonarmy_base', 'goblins_base', 'golem_base', 'wyvern_base', 'cannon', 'hut', 'fireball', 'freeze', 'heal'] },
+                { id: 'hero_2', name: 'Hero Two', inventory: ['archer_base', 'knight_base', 'mage_solar', 'giant_base', 'skeletonarmy_base', 'goblins_base', 'golem_base', 'wyvern_base', 'cannon', 'hut', 'fireball', 'freeze', 'heal'] }
 
             ];
             fs.writeFileSync(playersPath, JSON.stringify(seedPlayers, null, 2));
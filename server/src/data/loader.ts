@@ -9,10 +9,28 @@
 import {
     UnitsMap,
     ItemsMap,
+    TowersMap,
+    SpellsMap,
+    BuildingsMap,
+    SynergiesMap,
+    ArenasMap,
+    TAG_DAMAGE_MODIFIERS,
     getUnitById as getSharedUnit,
     getItemById as getSharedItem,
+    getTowerById as getSharedTower,
+    getSpellById as getSharedSpell,
+    getBuildingById as getSharedBuilding,
+    getArenaById as getSharedArena,
+    getCardKind as getSharedCardKind,
     UnitBase,
-    Item
+    Item,
+    TowerDefinition,
+    SpellDefinition,
+    BuildingDefinition,
+    SynergyDefinition,
+    TagDamageModifier,
+    ArenaDefinition,
+    CardKind
 } from '@crom/shared';
 
 /**
@@ -29,6 +47,48 @@ export function loadItems(): Map<string, Item> {
     return ItemsMap;
 }
 
+/**
+ * Carrega todas as torres do catálogo.
+ */
+export function loadTowers(): Map<string, TowerDefinition> {
+    return TowersMap;
+}
+
+/**
+ * Carrega todos os feitiços do catálogo.
+ */
+export function loadSpells(): Map<string, SpellDefinition> {
+    return SpellsMap;
+}
+
+/**
+ * Carrega todos os prédios do catálogo.
+ */
+export function loadBuildings(): Map<string, BuildingDefinition> {
+    return BuildingsMap;
+}
+
+/**
+ * Carrega todas as regras de sinergia do catálogo.
+ */
+export function loadSynergies(): Map<string, SynergyDefinition> {
+    return SynergiesMap;
+}
+
+/**
+ * Carrega todas as arenas do catálogo.
+ */
+export function loadArenas(): Map<string, ArenaDefinition> {
+    return ArenasMap;
+}
+
+/**
+ * Carrega os multiplicadores de dano por tag de afinidade.
+ */
+export function loadTagDamageModifiers(): TagDamageModifier[] {
+    return TAG_DAMAGE_MODIFIERS;
+}
+
 /**
  * Busca uma unidade pelo ID.
  */
@@ -43,6 +103,41 @@ export function getItemById(itemId: string): Item | undefined {
     return getSharedItem(itemId);
 }
 
+/**
+ * Busca uma torre pelo ID.
+ */
+export function getTowerById(towerId: string): TowerDefinition | undefined {
+    return getSharedTower(towerId);
+}
+
+/**
+ * Busca um feitiço pelo ID.
+ */
+export function getSpellById(spellId: string): SpellDefinition | undefined {
+    return getSharedSpell(spellId);
+}
+
+/**
+ * Busca um prédio pelo ID.
+ */
+export function getBuildingById(buildingId: string): BuildingDefinition | undefined {
+    return getSharedBuilding(buildingId);
+}
+
+/**
+ * Busca uma arena pelo ID.
+ */
+export function getArenaById(arenaId: string): ArenaDefinition | undefined {
+    return getSharedArena(arenaId);
+}
+
+/**
+ * Retorna o tipo de carta (unidade, feitiço ou prédio) de um ID do catálogo.
+ */
+export function getCardKind(cardId: string): CardKind | undefined {
+    return getSharedCardKind(cardId);
+}
+
 /**
  * Limpa o cache.
  * (No-op pois os dados agora são constantes compartilhadas)
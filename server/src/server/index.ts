@@ -8,6 +8,7 @@
  */
 
 import { SocketManager } from './socket-manager.js';
+import { DEFAULT_ARENA } from '../core/types/arena.js';
 
 console.log('====================================');
 console.log('   🎮 MAGIC ROYALE SERVER v0.3.0   ');
@@ -20,11 +21,13 @@ console.log('====================================\n');
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const TICK_RATE = parseInt(process.env.TICK_RATE || '20', 10);
 const MAX_GAME_DURATION = parseInt(process.env.MAX_DURATION || '180', 10);
+const ARENA_ID = process.env.ARENA || DEFAULT_ARENA.arenaId;
 
 console.log('[Config] Configurações do servidor:');
 console.log(`   📡 Porta: ${PORT}`);
 console.log(`   ⏱️ Tick Rate: ${TICK_RATE}Hz`);
-console.log(`   ⏳ Duração Máxima: ${MAX_GAME_DURATION}s\n`);
+console.log(`   ⏳ Duração Máxima: ${MAX_GAME_DURATION}s`);
+console.log(`   🗺️ Arena: ${ARENA_ID}\n`);
 
 // --------------------------------------------
 // 2. Inicializar SocketManager
@@ -33,6 +36,7 @@ const socketManager = SocketManager.getInstance({
     port: PORT,
     tickRate: TICK_RATE,
     maxGameDuration: MAX_GAME_DURATION,
+    arenaId: ARENA_ID,
     verbose: true,
 });
 
@@ -11,7 +11,7 @@
 
 import { WebSocket, WebSocketServer } from 'ws';
 import { createServer, Server as HttpServer } from 'http';
-import { GameRoom, PlayerConnection } from '../core/game/game-room.js';
+import { GameRoom, PlayerConnection, MatchResult } from '../core/game/game-room.js';
 import {
     C2SMessageType,
     S2CMessage,
@@ -21,6 +21,9 @@ import {
     createErrorMessage,
 } from '../core/net/protocol.js';
 import { SimpleDB, PlayerModel, DeckModel } from '../data/db.js';
+import { getArenaById } from '../data/loader.js';
+import { DEFAULT_ARENA } from '../core/types/arena.js';
+import type { ArenaDefinition } from '../core/types/arena.js';
 // import type { CardConfig } from '../core/types/deck.js';
 
 
@@ -74,6 +77,8 @@ export interface SocketManagerConfig {
     maxGameDuration?: number;
     /** Habilitar logs verbosos */
     verbose?: boolean;
+    /** Arena das partidas (ID do catálogo) */
+    arenaId?: string;
 }
 
 const DEFAULT_CONFIG: Required<SocketManagerConfig> = {
@@ -81,6 +86,7 @@ const DEFAULT_CONFIG: Required<SocketManagerConfig> = {
     tickRate: 20,
     maxGameDuration: 180,
     verbose: true,
+    arenaId: DEFAULT_ARENA.arenaId,
 };
 
 // ============================================
@@ -103,6 +109,7 @@ export class SocketManager {
     private httpServer: HttpServer;
     private wss: WebSocketServer;
     private config: Required<SocketManagerConfig>;
+    private arena: ArenaDefinition;
 
     // Gerenciamento de clientes
     private clients: Map<string, ConnectedClient> = new Map();
@@ -118,6 +125,12 @@ export class SocketManager {
     constructor(config: Partial<SocketManagerConfig> = {}) {
         this.config = { ...DEFAULT_CONFIG, ...config };
 
+        const arena = getArenaById(this.config.arenaId);
+        if (!arena) {
+            throw new Error(`Arena não encontrada no catálogo: ${this.config.arenaId}`);
+        }
+        this.arena = arena;
+
         // Criar servidor HTTP (necessário para WebSocket)
         this.httpServer = createServer((_req, res) => {
             res.writeHead(200, { 'Content-Type': 'text/plain' });
@@ -257,7 +270,7 @@ export class SocketManager {
                     break;
 
                 case C2SMessageType.SPAWN_CARD:
-                    this.handleSpawnCard(socketId, message.cardIndex, message.x, message.y);
+                    this.handleSpawnCard(socketId, message.seq, message.cardIndex, message.x, message.y);
                     break;
 
                 default:
@@ -449,6 +462,7 @@ export class SocketManager {
         const room = new GameRoom(roomId, {
             tickRate: this.config.tickRate,
             maxDuration: this.config.maxGameDuration,
+            arena: this.arena,
             verboseLogging: false,
             broadcastFn: (message: S2CMessage) => {
                 this.broadcastToRoom(roomId, message);
@@ -457,8 +471,8 @@ export class SocketManager {
                 const targetSocketId = playerIndex === 1 ? client1.socketId : client2.socketId;
                 this.sendTo(targetSocketId, message);
             },
-            onGameEnd: (winnerId: string, reason: string) => {
-                this.handleGameEnd(roomId, winnerId, reason);
+            onGameEnd: (result: MatchResult) => {
+                this.handleGameEnd(roomId, result);
             },
         });
 
@@ -502,6 +516,7 @@ export class SocketManager {
             you: { playerId: client1.player!.id, playerIndex: 1, deckId: client1.deckId },
             opponent: { playerId: client2.player!.id, playerIndex: 2, deckId: client2.deckId },
             tickRate: this.config.tickRate,
+            arena: room.getArena(),
         });
 
         this.sendTo(client2.socketId, {
@@ -510,6 +525,7 @@ export class SocketManager {
             you: { playerId: client2.player!.id, playerIndex: 2, deckId: client2.deckId },
             opponent: { playerId: client1.player!.id, playerIndex: 1, deckId: client1.deckId },
             tickRate: this.config.tickRate,
+            arena: room.getArena(),
         });
 
         console.log(`[SocketManager] 🎮 Partida criada: ${roomId} | ${client1.socketId} vs ${client2.socketId}`);
@@ -520,8 +536,9 @@ export class SocketManager {
 
     /**
      * Processa spawn de carta de um jogador.
+     * A ação é enfileirada e aplicada no próximo tick da sala.
      */
-    private handleSpawnCard(socketId: string, cardIndex: number, x: number, y: number): void {
+    private handleSpawnCard(socketId: string, seq: number, cardIndex: number, x: number, y: number): void {
         const client = this.clients.get(socketId);
         if (!client || client.state !== ClientState.IN_GAME || !client.roomId) {
             this.sendTo(socketId, createErrorMessage('NOT_IN_GAME', 'Não está em uma partida'));
@@ -542,22 +559,24 @@ export class SocketManager {
             return;
         }
 
-        // Delegar spawn para a sala
-        room.handleSpawnRequest(playerIndex, cardIndex, x, y);
+        // Enfileirar spawn para a fase de inputs do próximo tick
+        room.queueSpawnRequest(playerIndex, seq, cardIndex, x, y);
     }
 
     /**
      * Processa fim de jogo.
      */
-    private handleGameEnd(roomId: string, winnerId: string, reason: string): void {
+    private handleGameEnd(roomId: string, result: MatchResult): void {
         const room = this.rooms.get(roomId);
         if (!room) return;
 
         // Notificar jogadores
         this.broadcastToRoom(roomId, {
             type: S2CMessageType.MATCH_END,
-            winnerId,
-            reason,
+            winnerId: result.winnerId,
+            outcome: result.outcome,
+            crowns: result.crowns,
+            reason: result.reason,
         });
 
         // Resetar estado dos clientes
@@ -571,7 +590,11 @@ export class SocketManager {
         // Remover sala
         this.rooms.delete(roomId);
 
-        console.log(`[SocketManager] 🏁 Partida ${roomId} encerrada. Vencedor: ${winnerId}`);
+        console.log(
+            `[SocketManager] 🏁 Partida ${roomId} encerrada. ` +
+            `Vencedor: ${result.winnerId ?? 'empate'} | ` +
+            `Coroas: ${result.crowns.player1} x ${result.crowns.player2}`
+        );
     }
 
     // ============================================
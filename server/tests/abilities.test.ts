@@ -0,0 +1,102 @@
+/**
+ * Magic Royale - Item Ability Tests
+ *
+ * Testes unitários para as habilidades de itens executadas no combate.
+ *
+ * @module tests/abilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    aggregateAbilities,
+    rollAttackDamage,
+    getTagMultiplier,
+    applyLifesteal,
+    applyThorns,
+} from '../src/core/game/abilities.js';
+import { CombatSystem } from '../src/core/game/combat.js';
+import { ItemAbilityType } from '../src/core/types/item.js';
+import { AffinityTag } from '../src/core/types/tags.js';
+import { makeUnit } from './helpers/entity.js';
+
+describe('Item Abilities', () => {
+    it('deve agregar as habilidades de vários itens', () => {
+        const { abilities, shield } = aggregateAbilities([
+            { type: ItemAbilityType.LIFESTEAL, value: 0.2 },
+            { type: ItemAbilityType.LIFESTEAL, value: 0.1 },
+            { type: ItemAbilityType.CRITICAL, value: 0.8, multiplier: 2 },
+            { type: ItemAbilityType.CRITICAL, value: 0.5, multiplier: 3 },
+            { type: ItemAbilityType.SHIELD, value: 100 },
+        ]);
+
+        expect(abilities.lifesteal).toBeCloseTo(0.3);
+        expect(abilities.critChance).toBe(1);
+        expect(abilities.critMultiplier).toBe(3);
+        expect(shield).toBe(100);
+    });
+
+    it('deve rolar crítico com o RNG informado', () => {
+        const { abilities } = aggregateAbilities([{ type: ItemAbilityType.CRITICAL, value: 0.25, multiplier: 2 }]);
+        const unit = makeUnit({ abilities });
+
+        expect(rollAttackDamage(unit, () => 0.1)).toEqual({ damage: 100, critical: true });
+        expect(rollAttackDamage(unit, () => 0.9)).toEqual({ damage: 50, critical: false });
+    });
+
+    it('deve aplicar bônus apenas contra as tags listadas', () => {
+        const { abilities } = aggregateAbilities([
+            { type: ItemAbilityType.TAG_BONUS, value: 1, tags: [AffinityTag.DEMON] },
+        ]);
+        const attacker = makeUnit({ abilities });
+
+        expect(getTagMultiplier(attacker, makeUnit({ tags: [AffinityTag.DEMON] }))).toBe(2);
+        expect(getTagMultiplier(attacker, makeUnit({ tags: [AffinityTag.HUMAN] }))).toBe(1);
+    });
+
+    it('deve absorver dano com o escudo antes da vida', () => {
+        const unit = makeUnit({ shield: 80 });
+
+        unit.takeDamage(50);
+        expect(unit.shield).toBe(30);
+        expect(unit.stats.hp).toBe(200);
+
+        unit.takeDamage(50);
+        expect(unit.shield).toBe(0);
+        expect(unit.stats.hp).toBe(180);
+    });
+
+    it('deve curar com roubo de vida e refletir com espinhos', () => {
+        const attacker = makeUnit({ abilities: aggregateAbilities([{ type: ItemAbilityType.LIFESTEAL, value: 0.5 }]).abilities });
+        const target = makeUnit({ abilities: aggregateAbilities([{ type: ItemAbilityType.THORNS, value: 0.2 }]).abilities });
+        attacker.takeDamage(100);
+
+        expect(applyLifesteal(attacker, 40)).toBe(20);
+        expect(applyThorns(attacker, target, 50)).toBe(10);
+        expect(attacker.stats.hp).toBe(110);
+    });
+
+    it('deve executar as habilidades no ataque corpo-a-corpo do CombatSystem', () => {
+        const combat = new CombatSystem({ logAttacks: false, random: () => 0 });
+        const attacker = makeUnit({
+            id: 'attacker',
+            abilities: aggregateAbilities([
+                { type: ItemAbilityType.CRITICAL, value: 0.1, multiplier: 2 },
+                { type: ItemAbilityType.LIFESTEAL, value: 0.5 },
+            ]).abilities,
+        });
+        const target = makeUnit({
+            id: 'target',
+            ownerId: 'player2',
+            position: { x: 1.5, y: 0 },
+            isActive: false, // não revida
+            abilities: aggregateAbilities([{ type: ItemAbilityType.THORNS, value: 0.1 }]).abilities,
+        });
+        attacker.takeDamage(60);
+
+        combat.update([attacker, target], 0, 1, 0.05);
+
+        // Crítico: 100 de dano → +50 de cura, -10 de espinhos
+        expect(target.stats.hp).toBe(100);
+        expect(attacker.stats.hp).toBe(180);
+    });
+});
@@ -0,0 +1,61 @@
+/**
+ * Magic Royale - Damage Resolution Tests
+ *
+ * Testes unitários para tipos de dano, armadura, resistência mágica
+ * e multiplicadores por tag.
+ *
+ * @module tests/damage
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    computeDamage,
+    getMitigationMultiplier,
+    getTagDamageMultiplier,
+} from '../src/core/game/damage.js';
+import type { GameEntity } from '../src/core/game/entity.js';
+import { DamageType } from '../src/core/types/damage.js';
+import { AffinityTag } from '../src/core/types/tags.js';
+import { makeUnit } from './helpers/entity.js';
+
+function makeTarget(armor: number, magicResist: number, tags: AffinityTag[] = []): GameEntity {
+    return makeUnit({
+        id: 'target',
+        ownerId: 'player2',
+        position: { x: 10, y: 10 },
+        tags,
+        stats: { hp: 500, maxHp: 500, armor, magicResist },
+    });
+}
+
+describe('Damage Resolution', () => {
+    it('deve reduzir o dano por 100 / (100 + resistência)', () => {
+        expect(getMitigationMultiplier(0)).toBe(1);
+        expect(getMitigationMultiplier(100)).toBe(0.5);
+        expect(getMitigationMultiplier(-20)).toBe(1);
+    });
+
+    it('armadura deve reduzir apenas dano físico; resistência mágica reduz magia e fogo', () => {
+        const target = makeTarget(100, 0);
+
+        expect(computeDamage(100, { damageType: DamageType.PHYSICAL, tags: [] }, target)).toBe(50);
+        expect(computeDamage(100, { damageType: DamageType.MAGIC, tags: [] }, target)).toBe(100);
+
+        const warded = makeTarget(0, 100);
+        expect(computeDamage(100, { damageType: DamageType.FIRE, tags: [] }, warded)).toBe(50);
+    });
+
+    it('deve aplicar fraquezas por tag da origem (UNDEAD fraco a SOLAR)', () => {
+        const undead = makeTarget(0, 0, [AffinityTag.UNDEAD]);
+
+        expect(getTagDamageMultiplier({ damageType: DamageType.MAGIC, tags: [AffinityTag.SOLAR] }, undead)).toBe(1.5);
+        expect(getTagDamageMultiplier({ damageType: DamageType.MAGIC, tags: [AffinityTag.HUMAN] }, undead)).toBe(1);
+    });
+
+    it('deve aplicar modificadores por tipo de dano (NATURE fraco a fogo)', () => {
+        const nature = makeTarget(0, 0, [AffinityTag.NATURE]);
+
+        expect(computeDamage(100, { damageType: DamageType.FIRE, tags: [] }, nature)).toBe(150);
+        expect(computeDamage(100, { damageType: DamageType.PHYSICAL, tags: [] }, nature)).toBe(100);
+    });
+});
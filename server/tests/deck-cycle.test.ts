@@ -0,0 +1,79 @@
+/**
+ * Magic Royale - Deck Cycle Tests
+ *
+ * Testes unitários para o ciclo de cartas (mão + próxima + fila).
+ *
+ * @module tests/deck-cycle
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DeckCycle } from '../src/core/game/deck-cycle.js';
+import type { CardConfig } from '../src/core/types/deck.js';
+
+function makeDeck(unitIds: string[]): CardConfig[] {
+    return unitIds.map((baseUnitId, slotIndex) => ({ slotIndex, baseUnitId, equippedItems: [] }));
+}
+
+const EIGHT_CARDS = makeDeck(['c0', 'c1', 'c2', 'c3', 'c4', 'c5', 'c6', 'c7']);
+
+describe('DeckCycle', () => {
+    it('deve distribuir 4 cartas na mão e expor a próxima', () => {
+        const cycle = new DeckCycle(EIGHT_CARDS, 4, false);
+
+        expect(cycle.getHand().map((c) => c.baseUnitId)).toEqual(['c0', 'c1', 'c2', 'c3']);
+        expect(cycle.getNextCard()?.baseUnitId).toBe('c4');
+    });
+
+    it('deve colocar a carta jogada no final da fila e repor o slot com a próxima', () => {
+        const cycle = new DeckCycle(EIGHT_CARDS, 4, false);
+
+        const played = cycle.play(1);
+
+        expect(played?.baseUnitId).toBe('c1');
+        expect(cycle.getHand().map((c) => c.baseUnitId)).toEqual(['c0', 'c4', 'c2', 'c3']);
+        expect(cycle.getNextCard()?.baseUnitId).toBe('c5');
+    });
+
+    it('❌ não deve permitir jogar a mesma carta antes que ela volte para a mão', () => {
+        const cycle = new DeckCycle(EIGHT_CARDS, 4, false);
+
+        cycle.play(0); // c0 vai para o fim da fila
+        const inHand = cycle.getHand().map((c) => c.baseUnitId);
+
+        expect(inHand).not.toContain('c0');
+
+        // São necessárias 4 jogadas para c0 voltar à mão
+        cycle.play(0);
+        cycle.play(0);
+        cycle.play(0);
+        expect(cycle.getHand().map((c) => c.baseUnitId)).not.toContain('c0');
+        cycle.play(0);
+        expect(cycle.getHand()[0].baseUnitId).toBe('c0');
+    });
+
+    it('❌ deve rejeitar índices fora da mão', () => {
+        const cycle = new DeckCycle(EIGHT_CARDS, 4, false);
+
+        expect(cycle.isValidHandIndex(4)).toBe(false);
+        expect(cycle.isValidHandIndex(-1)).toBe(false);
+        expect(cycle.isValidHandIndex(1.5)).toBe(false);
+        expect(cycle.play(7)).toBeNull();
+    });
+
+    it('deve embaralhar usando a fonte de aleatoriedade informada', () => {
+        const a = new DeckCycle(EIGHT_CARDS, 4, true, () => 0);
+        const b = new DeckCycle(EIGHT_CARDS, 4, true, () => 0);
+
+        expect(a.getHand()).toEqual(b.getHand());
+        expect(a.getHand().map((c) => c.baseUnitId)).not.toEqual(['c0', 'c1', 'c2', 'c3']);
+    });
+
+    it('deve funcionar com decks menores que a mão', () => {
+        const cycle = new DeckCycle(makeDeck(['c0', 'c1']), 4, false);
+
+        expect(cycle.getHand()).toHaveLength(2);
+        expect(cycle.getNextCard()).toBeNull();
+        expect(cycle.play(0)?.baseUnitId).toBe('c0');
+        expect(cycle.getHand()[0].baseUnitId).toBe('c0');
+    });
+});
@@ -0,0 +1,730 @@
+/**
+ * Magic Royale - Game Room Tests
+ *
+ * Testes de integração da simulação autoritativa (tick loop, inputs e determinismo).
+ *
+ * @module tests/game-room
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GameRoom } from '../src/core/game/game-room.js';
+import type { GameRoomConfig } from '../src/core/game/game-room.js';
+import type { GameClock } from '../src/core/game/clock.js';
+import type { CardConfig } from '../src/core/types/deck.js';
+import type { S2CMessage } from '../src/core/net/protocol.js';
+import { getBuildingById } from '../src/data/loader.js';
+import { DEFAULT_ARENA } from '../src/core/types/arena.js';
+import type { ArenaDefinition } from '../src/core/types/arena.js';
+
+const DECK: CardConfig[] = [
+    { slotIndex: 0, baseUnitId: 'knight_base', equippedItems: [] },
+    { slotIndex: 1, baseUnitId: 'archer_base', equippedItems: [] },
+    { slotIndex: 2, baseUnitId: 'mage_solar', equippedItems: [] },
+    { slotIndex: 3, baseUnitId: 'knight_base', equippedItems: ['sword_flame_t1'] },
+    { slotIndex: 4, baseUnitId: 'archer_base', equippedItems: ['longbow_t2'] },
+    { slotIndex: 5, baseUnitId: 'knight_base', equippedItems: ['steel_plate_t2'] },
+    { slotIndex: 6, baseUnitId: 'archer_base', equippedItems: [] },
+    { slotIndex: 7, baseUnitId: 'mage_solar', equippedItems: [] },
+];
+
+/**
+ * Relógio falso: o tempo só avança quando o teste manda.
+ */
+class FakeClock implements GameClock {
+    private time = 0;
+    private callbacks = new Map<number, { callback: () => void; intervalMs: number; nextAt: number }>();
+    private nextHandle = 1;
+
+    now(): number {
+        return this.time;
+    }
+
+    setInterval(callback: () => void, intervalMs: number): number {
+        const handle = this.nextHandle++;
+        this.callbacks.set(handle, { callback, intervalMs, nextAt: this.time + intervalMs });
+        return handle;
+    }
+
+    clearInterval(handle: unknown): void {
+        this.callbacks.delete(handle as number);
+    }
+
+    /** Avança o tempo disparando os intervalos vencidos. */
+    advance(ms: number): void {
+        const target = this.time + ms;
+        for (const timer of this.callbacks.values()) {
+            while (timer.nextAt <= target && this.callbacks.size > 0) {
+                // Timers atrasados disparam uma vez, no instante atual
+                this.time = Math.max(this.time, timer.nextAt);
+                timer.nextAt = this.time + timer.intervalMs;
+                timer.callback();
+            }
+        }
+        this.time = target;
+    }
+
+    /** Pula o tempo sem disparar timers (simula um host travado). */
+    jump(ms: number): void {
+        this.time += ms;
+    }
+}
+
+function createRoom(config: GameRoomConfig = {}, messages: S2CMessage[] = []): GameRoom {
+    const room = new GameRoom('test-room', {
+        verboseLogging: false,
+        broadcastFn: (message) => messages.push(message),
+        sendToPlayerFn: (_playerIndex, message) => messages.push(message),
+        ...config,
+    });
+    room.addPlayer({ playerId: 'p1', deckId: 'deck', deckCards: DECK }, 1);
+    room.addPlayer({ playerId: 'p2', deckId: 'deck', deckCards: DECK }, 2);
+    return room;
+}
+
+describe('GameRoom', () => {
+    describe('Relógio determinístico', () => {
+        it('deve derivar o tempo simulado do número do tick', () => {
+            const clock = new FakeClock();
+            const room = createRoom({ clock, seed: 1 });
+
+            room.start();
+            clock.advance(1000);
+
+            expect(room.getState().tick).toBe(20);
+            expect(room.getSimulationTime()).toBe(1000);
+            room.stop();
+        });
+
+        it('deve recuperar ticks atrasados quando o host trava', () => {
+            const clock = new FakeClock();
+            const room = createRoom({ clock, seed: 1 });
+
+            room.start();
+            clock.advance(100); // 2 ticks
+            clock.jump(150); // Host travado por 3 ticks
+            clock.advance(50); // Próximo timer recupera o atraso
+
+            expect(room.getState().tick).toBe(6);
+            room.stop();
+        });
+
+        it('deve produzir o mesmo resultado para a mesma seed e os mesmos inputs', () => {
+            const run = () => {
+                const clock = new FakeClock();
+                const room = createRoom({ clock, seed: 42, initialMana: 10 });
+                room.start();
+                clock.advance(100);
+                room.queueSpawnRequest(1, 1, 0, 12, 10);
+                room.queueSpawnRequest(2, 1, 0, 14, 30);
+                clock.advance(8000);
+                const entities = room.getEntities().map((e) => ({
+                    id: e.id,
+                    x: e.position.x,
+                    y: e.position.y,
+                    hp: e.stats.hp,
+                }));
+                room.stop();
+                return { hand: room.getHand(1).map((c) => c.baseUnitId), entities };
+            };
+
+            expect(run()).toEqual(run());
+        });
+    });
+
+    describe('Fila de ações', () => {
+        it('deve aplicar a ação apenas no tick e confirmar com ACTION_ACK', () => {
+            const clock = new FakeClock();
+            const messages: S2CMessage[] = [];
+            const room = createRoom({ clock, seed: 7, initialMana: 10 }, messages);
+
+            room.start();
+            const unitsBefore = room.getEntities().length;
+
+            expect(room.queueSpawnRequest(1, 1, 0, 15, 10)).toBe(true);
+            expect(room.getEntities().length).toBe(unitsBefore);
+
+            clock.advance(50);
+
+            expect(room.getEntities().length).toBe(unitsBefore + 1);
+            const ack = messages.find((m) => m.type === 'ACTION_ACK');
+            expect(ack).toMatchObject({ seq: 1, tick: 1, accepted: true });
+            room.stop();
+        });
+
+        it('❌ deve descartar números de sequência repetidos', () => {
+            const clock = new FakeClock();
+            const room = createRoom({ clock, seed: 7 });
+
+            room.start();
+            expect(room.queueSpawnRequest(1, 3, 0, 15, 10)).toBe(true);
+            expect(room.queueSpawnRequest(1, 3, 0, 15, 10)).toBe(false);
+            expect(room.queueSpawnRequest(1, 2, 0, 15, 10)).toBe(false);
+            room.stop();
+        });
+
+        it('deve alternar a prioridade entre os jogadores a cada tick', () => {
+            const clock = new FakeClock();
+            const ackOrder: Array<1 | 2> = [];
+            const room = createRoom({
+                clock,
+                seed: 7,
+                initialMana: 10,
+                sendToPlayerFn: (playerIndex, message) => {
+                    if (message.type === 'ACTION_ACK') ackOrder.push(playerIndex);
+                },
+            });
+
+            room.start();
+            room.queueSpawnRequest(2, 1, 0, 15, 30);
+            room.queueSpawnRequest(1, 1, 0, 15, 10);
+            clock.advance(50);
+
+            room.queueSpawnRequest(1, 2, 0, 12, 10);
+            room.queueSpawnRequest(2, 2, 0, 12, 30);
+            clock.advance(50);
+
+            expect(ackOrder).toEqual([1, 2, 2, 1]);
+            room.stop();
+        });
+
+        it('❌ deve rejeitar ações além do limite de pendentes no mesmo tick', () => {
+            const clock = new FakeClock();
+            const messages: S2CMessage[] = [];
+            const room = createRoom({ clock, seed: 7, initialMana: 10 }, messages);
+
+            room.start();
+            for (let seq = 1; seq <= 8; seq++) {
+                expect(room.queueSpawnRequest(1, seq, 0, 15, 10)).toBe(true);
+            }
+            expect(room.queueSpawnRequest(1, 9, 0, 15, 10)).toBe(false);
+
+            expect(messages).toContainEqual(expect.objectContaining({ type: 'ERROR', code: 'ACTION_QUEUE_FULL' }));
+            expect(messages).toContainEqual(expect.objectContaining({ type: 'ACTION_ACK', seq: 9, accepted: false }));
+            room.stop();
+        });
+
+        it('❌ deve confirmar como rejeitada a ação inválida no tick', () => {
+            const clock = new FakeClock();
+            const messages: S2CMessage[] = [];
+            const room = createRoom({ clock, seed: 7, initialMana: 0 }, messages);
+
+            room.start();
+            const unitsBefore = room.getEntities().length;
+            room.queueSpawnRequest(1, 1, 0, 15, 10);
+            clock.advance(50);
+
+            expect(messages.find((m) => m.type === 'ACTION_ACK')).toMatchObject({
+                seq: 1,
+                tick: 1,
+                accepted: false,
+            });
+            expect(room.getEntities().length).toBe(unitsBefore);
+            room.stop();
+        });
+    });
+
+    describe('Torres', () => {
+        it('deve usar os stats do catálogo de torres', () => {
+            const room = createRoom({ headless: true, seed: 5 });
+            const core = room.getEntities().find((e) => e.id === 't1_core')!;
+
+            expect(core.stats).toMatchObject({ hp: 4000, damage: 80, range: 8 });
+            expect(core.radius).toBe(2);
+        });
+
+        it('deve atacar unidades inimigas que entram no alcance', () => {
+            const room = createRoom({ headless: true, shuffleDecks: false, initialMana: 10 });
+            room.start();
+            room.queueSpawnRequest(1, 1, 0, 5, 14);
+            room.step(1);
+
+            const tower = room.getEntities().find((e) => e.id === 't2_left')!;
+            const unit = room.getEntities().find((e) => !e.isTower)!;
+
+            const result = room.runUntil(() => tower.targetId === unit.id, 600);
+            expect(result.satisfied).toBe(true);
+
+            room.step(20);
+            expect(unit.stats.hp).toBeLessThan(unit.stats.maxHp);
+        });
+    });
+
+    describe('Torre do rei', () => {
+        const findTower = (room: GameRoom, id: string) => room.getEntities().find((e) => e.id === id)!;
+
+        it('deve começar adormecida enquanto as torres laterais estão ativas', () => {
+            const room = createRoom({ headless: true, seed: 5 });
+
+            expect(findTower(room, 't1_core').isActive).toBe(false);
+            expect(findTower(room, 't1_left').isActive).toBe(true);
+            expect(room.getTowerState('t2_core')).toMatchObject({ isActive: false, isDestroyed: false });
+        });
+
+        it('deve despertar ao receber dano', () => {
+            const room = createRoom({ headless: true, seed: 5 });
+            room.start();
+
+            findTower(room, 't2_core').takeDamage(1);
+            const { events } = room.step(1);
+
+            expect(findTower(room, 't2_core').isActive).toBe(true);
+            expect(events.find((e) => e.message.type === 'TOWER_ACTIVATED')?.message).toMatchObject({
+                towerId: 't2_core',
+                reason: 'DAMAGED',
+            });
+        });
+
+        it('deve despertar quando uma torre lateral do mesmo lado é destruída', () => {
+            const room = createRoom({ headless: true, seed: 5 });
+            room.start();
+
+            findTower(room, 't1_right').takeDamage(Infinity);
+            const { events } = room.step(1);
+
+            expect(room.getTowerState('t1_right')?.isDestroyed).toBe(true);
+            expect(room.getTowerState('t1_core')?.isActive).toBe(true);
+            expect(room.getTowerState('t2_core')?.isActive).toBe(false);
+            expect(events.find((e) => e.message.type === 'TOWER_ACTIVATED')?.message).toMatchObject({
+                towerId: 't1_core',
+                reason: 'SIDE_TOWER_DESTROYED',
+            });
+        });
+    });
+
+    describe('Coroas e fases da partida', () => {
+        const destroy = (room: GameRoom, id: string) =>
+            room.getEntities().find((e) => e.id === id)!.takeDamage(Infinity);
+
+        it('deve vencer imediatamente ao destruir o core, com 3 coroas', () => {
+            const room = createRoom({ headless: true, seed: 5 });
+            room.start();
+
+            destroy(room, 't2_core');
+            room.step(1);
+
+            expect(room.getResult()).toMatchObject({
+                winnerId: 'player1',
+                outcome: 'win',
+                crowns: { player1: 3, player2: 0 },
+            });
+        });
+
+        it('deve vencer por coroas ao fim do tempo regular', () => {
+            const room = createRoom({ headless: true, seed: 5, maxDuration: 2 });
+            room.start();
+
+            destroy(room, 't1_left');
+            room.runUntil((r) => r.getResult() !== null);
+
+            expect(room.getResult()).toMatchObject({
+                winnerId: 'player2',
+                crowns: { player1: 0, player2: 1 },
+                tick: 40,
+            });
+        });
+
+        it('deve ir para a prorrogação com coroas empatadas e encerrar na primeira coroa', () => {
+            const room = createRoom({ headless: true, seed: 5, maxDuration: 2, overtimeDuration: 10 });
+            room.start();
+
+            const { events } = room.step(40);
+            expect(room.getState().phase).toBe('OVERTIME');
+            expect(events.filter((e) => e.message.type === 'MATCH_PHASE').at(-1)?.message).toMatchObject({
+                phase: 'OVERTIME',
+                endsAtTick: 240,
+            });
+
+            destroy(room, 't2_right');
+            room.step(1);
+
+            expect(room.getResult()).toMatchObject({ winnerId: 'player1', reason: 'Coroa na prorrogação' });
+        });
+
+        it('deve drenar as torres na morte súbita e terminar em empate se ninguém abrir vantagem', () => {
+            const room = createRoom({
+                headless: true,
+                seed: 5,
+                maxDuration: 1,
+                overtimeDuration: 1,
+                suddenDeathDuration: 1,
+            });
+            room.start();
+
+            room.step(40);
+            expect(room.getState().phase).toBe('SUDDEN_DEATH');
+
+            room.runUntil((r) => r.getResult() !== null);
+
+            const tower = room.getTowerState('t1_left')!;
+            expect(tower.health).toBeLessThan(tower.maxHealth);
+            expect(room.getResult()).toMatchObject({
+                winnerId: null,
+                outcome: 'draw',
+                crowns: { player1: 0, player2: 0 },
+                tick: 60,
+            });
+        });
+
+        it('❌ o decaimento padrão da morte súbita não deve derrubar torres nem dar coroas', () => {
+            const room = createRoom({ headless: true, seed: 5, maxDuration: 1, overtimeDuration: 1 });
+            room.start();
+
+            room.runUntil((r) => r.getResult() !== null, 2000);
+
+            for (const id of ['t1_left', 't1_right', 't1_core', 't2_left', 't2_right', 't2_core']) {
+                const tower = room.getTowerState(id)!;
+                expect(tower.isDestroyed).toBe(false);
+                expect(tower.health).toBeGreaterThanOrEqual(1);
+            }
+            expect(room.getResult()).toMatchObject({
+                winnerId: null,
+                outcome: 'draw',
+                crowns: { player1: 0, player2: 0 },
+                reason: 'Empate: 0 x 0 coroas',
+                tick: 1240,
+            });
+        });
+    });
+
+    describe('Fases de mana', () => {
+        it('deve multiplicar a regeneração nas fases configuradas e anunciar a mudança', () => {
+            const room = createRoom({
+                headless: true,
+                seed: 5,
+                initialMana: 0,
+                manaPhases: [{ startsAtSecond: 1, multiplier: 2 }],
+            });
+            room.start();
+
+            room.step(19);
+            const before = room.getState().mana.player1;
+            const { events } = room.step(20);
+
+            expect(room.getState().manaMultiplier).toBe(2);
+            expect(room.getState().mana.player1 - before).toBeCloseTo(2);
+            expect(events.find((e) => e.message.type === 'MANA_PHASE')).toMatchObject({
+                tick: 20,
+                message: { multiplier: 2, maxMana: 10 },
+            });
+        });
+
+        it('deve respeitar a mana máxima configurada', () => {
+            const room = createRoom({ headless: true, seed: 5, initialMana: 0, maxMana: 3 });
+            room.start();
+
+            room.step(100);
+
+            expect(room.getState().mana.player2).toBe(3);
+        });
+    });
+
+    describe('Feitiços', () => {
+        const SPELL_DECK: CardConfig[] = [
+            { slotIndex: 0, baseUnitId: 'fireball', equippedItems: [] },
+            { slotIndex: 1, baseUnitId: 'freeze', equippedItems: [] },
+            { slotIndex: 2, baseUnitId: 'heal', equippedItems: [] },
+            { slotIndex: 3, baseUnitId: 'knight_base', equippedItems: [] },
+        ];
+
+        function createSpellRoom(): GameRoom {
+            const room = new GameRoom('spell-room', {
+                headless: true,
+                seed: 9,
+                shuffleDecks: false,
+                initialMana: 10,
+                verboseLogging: false,
+            });
+            room.addPlayer({ playerId: 'p1', deckId: 'deck', deckCards: SPELL_DECK }, 1);
+            room.addPlayer({ playerId: 'p2', deckId: 'deck', deckCards: DECK }, 2);
+            room.start();
+            return room;
+        }
+
+        it('deve atingir inimigos na área fora da zona de deploy, sem criar entidade', () => {
+            const room = createSpellRoom();
+            const enemy = room.spawnUnit(2, 'knight_base', 15, 30)!;
+            const ally = room.spawnUnit(1, 'knight_base', 16, 12)!;
+            const countBefore = room.getEntities().length;
+
+            room.queueSpawnRequest(1, 1, 0, 15, 30);
+            const { events } = room.step(1);
+
+            // Nenhuma entidade criada; o cavaleiro inimigo (200 HP) morre com a explosão
+            expect(room.getEntities().length).toBe(countBefore - 1);
+            expect(enemy.isAlive()).toBe(false);
+            expect(ally.stats.hp).toBe(ally.stats.maxHp);
+            expect(room.getState().mana.player1).toBeCloseTo(6.05);
+            expect(events.find((e) => e.message.type === 'SPELL_CAST')?.message).toMatchObject({
+                spellId: 'fireball',
+                affected: [enemy.id],
+            });
+        });
+
+        it('deve causar dano reduzido em torres', () => {
+            const room = createSpellRoom();
+            const tower = room.getEntities().find((e) => e.id === 't2_left')!;
+
+            room.queueSpawnRequest(1, 1, 0, tower.position.x, tower.position.y);
+            room.step(1);
+
+            expect(tower.stats.maxHp - tower.stats.hp).toBeCloseTo(325 * 0.35);
+        });
+
+        it('deve congelar inimigos e curar aliados', () => {
+            const room = createSpellRoom();
+            const enemy = room.spawnUnit(2, 'knight_base', 15, 30)!;
+            const ally = room.spawnUnit(1, 'knight_base', 15, 10)!;
+            ally.takeDamage(100);
+
+            room.queueSpawnRequest(1, 1, 1, 15, 30);
+            room.queueSpawnRequest(1, 2, 2, 15, 10);
+            room.step(20);
+
+            expect(enemy.position).toEqual({ x: 15, y: 30 });
+            expect(enemy.isFrozen(room.getSimulationTime())).toBe(true);
+            expect(ally.stats.hp).toBe(ally.stats.maxHp);
+        });
+    });
+
+    describe('Prédios', () => {
+        it('deve desgastar o prédio até desabar ao fim do tempo de vida', () => {
+            const room = createRoom({ headless: true, seed: 4 });
+            room.start();
+            const cannon = room.spawnBuilding(1, getBuildingById('cannon')!, 3, 3);
+
+            room.step(300); // 15s de 30s
+            expect(cannon.stats.hp).toBeCloseTo(cannon.stats.maxHp / 2, 0);
+            expect(cannon.position).toEqual({ x: 3, y: 3 });
+
+            room.step(301);
+            expect(room.getEntities().some((e) => e.id === cannon.id)).toBe(false);
+        });
+
+        it('deve invocar tropas periodicamente à frente do gerador', () => {
+            const room = createRoom({ headless: true, seed: 4 });
+            room.start();
+            const hut = room.spawnBuilding(1, getBuildingById('hut')!, 3, 3);
+
+            room.step(199);
+            expect(room.getEntities().some((e) => e.unitId === 'archer_base')).toBe(false);
+
+            const { events } = room.step(1);
+            const archer = room.getEntities().find((e) => e.unitId === 'archer_base');
+            expect(archer?.ownerId).toBe('player1');
+            expect(archer!.position.y).toBeGreaterThan(hut.position.y);
+            expect(events.some((e) => e.message.type === 'ENTITY_SPAWNED')).toBe(true);
+        });
+
+        it('deve ser alvo de unidades que só atacam construções', () => {
+            const room = createRoom({ headless: true, seed: 4 });
+            room.start();
+            const cannon = room.spawnBuilding(2, getBuildingById('cannon')!, 15, 26);
+            const giant = room.spawnUnit(1, 'giant_base', 15, 14)!;
+
+            room.step(31); // 1.5s de deploy
+            expect(giant.targetId).toBe(cannon.id);
+        });
+    });
+
+    describe('Formações e efeitos de morte', () => {
+        it('deve posicionar todas as unidades da formação com os itens da carta', () => {
+            const room = createRoom({ headless: true, seed: 6 });
+            room.start();
+
+            const goblins = room.spawnFormation(1, 'goblins_base', 15, 10, ['steel_plate_t2']);
+
+            expect(goblins).toHaveLength(3);
+            expect(new Set(goblins.map((g) => `${g.position.x},${g.position.y}`)).size).toBe(3);
+            expect(goblins.every((g) => g.stats.maxHp === 210 && g.stats.armor === 40)).toBe(true);
+        });
+
+        it('deve explodir e invocar golemitas quando o golem morre', () => {
+            const room = createRoom({ headless: true, seed: 6 });
+            room.start();
+            const golem = room.spawnUnit(1, 'golem_base', 15, 20)!;
+            const enemy = room.spawnUnit(2, 'knight_base', 16, 20)!;
+            enemy.isActive = false;
+
+            golem.takeDamage(golem.stats.hp);
+            room.step(1);
+
+            const golemites = room.getEntities().filter((e) => e.unitId === 'golemite_base');
+            expect(golemites).toHaveLength(2);
+            expect(golemites.every((g) => g.ownerId === 'player1')).toBe(true);
+            expect(enemy.stats.maxHp - enemy.stats.hp).toBeCloseTo(140 * (100 / 120));
+            expect(room.getEntities().some((e) => e.id === golem.id)).toBe(false);
+        });
+    });
+
+    describe('Deploy', () => {
+        it('deve manter a unidade parada e sem atacar até o fim do deploy, mas atacável', () => {
+            const room = createRoom({ headless: true, seed: 7 });
+            room.start();
+            const enemy = room.spawnUnit(2, 'knight_base', 16, 12)!;
+            enemy.isActive = false;
+            room.step(25);
+
+            const knight = room.spawnUnit(1, 'knight_base', 15, 12)!;
+            expect(knight.state).toBe('DEPLOYING');
+            room.step(10);
+            expect(knight.state).toBe('DEPLOYING');
+            expect(knight.position).toEqual({ x: 15, y: 12 });
+            expect(enemy.stats.hp).toBe(enemy.stats.maxHp);
+
+            enemy.isActive = true;
+            room.step(5);
+            expect(knight.stats.hp).toBeLessThan(knight.stats.maxHp);
+
+            room.step(10);
+            expect(knight.state).not.toBe('DEPLOYING');
+        });
+    });
+
+    describe('Sinergias', () => {
+        it('deve avisar apenas o jogador cujas sinergias mudaram', () => {
+            const room = createRoom({ headless: true, seed: 5 });
+            room.start();
+            room.spawnUnit(1, 'mage_solar', 10, 10);
+            room.spawnUnit(1, 'mage_solar', 12, 10);
+            room.spawnUnit(1, 'mage_solar', 14, 10);
+
+            const { events } = room.step(1);
+            const updates = events.filter((e) => e.message.type === 'SYNERGY_UPDATE');
+
+            expect(updates).toHaveLength(1);
+            expect(updates[0].target).toBe(1);
+            expect(room.getSynergies().player1).toContainEqual({ synergyId: 'solar_radiance', affected: 3 });
+            expect(room.step(1).events.some((e) => e.message.type === 'SYNERGY_UPDATE')).toBe(false);
+        });
+    });
+
+    describe('Arenas', () => {
+        const SMALL_ZONES_ARENA: ArenaDefinition = {
+            ...DEFAULT_ARENA,
+            arenaId: 'test_arena',
+            towers: [
+                { id: 't1_core', ownerId: 'player1', towerId: 'tower_core', position: { x: 10, y: 3 } },
+                { id: 't2_core', ownerId: 'player2', towerId: 'tower_core', position: { x: 20, y: 37 } },
+            ],
+            deployZones: {
+                player1: { minX: 0, maxX: 30, minY: 0, maxY: 10 },
+                player2: { minX: 0, maxX: 30, minY: 30, maxY: 40 },
+            },
+        };
+
+        it('deve criar as torres a partir da arena configurada', () => {
+            const room = createRoom({ headless: true, seed: 6, arena: SMALL_ZONES_ARENA });
+            const towers = room.getEntities().filter((e) => e.isTower);
+
+            expect(room.getArena()).toBe(SMALL_ZONES_ARENA);
+            expect(towers.map((t) => [t.id, t.position])).toEqual([
+                ['t1_core', { x: 10, y: 3 }],
+                ['t2_core', { x: 20, y: 37 }],
+            ]);
+            expect(room.getTowerState('t1_left')).toBeNull();
+        });
+
+        it('❌ deve recusar spawn fora da zona de deploy da arena', () => {
+            const messages: S2CMessage[] = [];
+            const room = createRoom(
+                { headless: true, seed: 6, shuffleDecks: false, initialMana: 10, arena: SMALL_ZONES_ARENA },
+                messages
+            );
+            room.start();
+            const unitsBefore = room.getEntities().length;
+
+            // y = 12 é válido na arena padrão, mas fora da zona desta arena
+            room.queueSpawnRequest(1, 1, 0, 15, 12);
+            room.step(1);
+
+            expect(room.getEntities().length).toBe(unitsBefore);
+            expect(messages).toContainEqual(expect.objectContaining({ type: 'ERROR', code: 'INVALID_POSITION' }));
+        });
+
+        it('deve encerrar a partida quando cai um core com ID próprio da arena', () => {
+            const arena: ArenaDefinition = {
+                ...SMALL_ZONES_ARENA,
+                towers: [
+                    { id: 'south_keep', ownerId: 'player1', towerId: 'tower_core', position: { x: 10, y: 3 } },
+                    { id: 'north_keep', ownerId: 'player2', towerId: 'tower_core', position: { x: 20, y: 37 } },
+                ],
+            };
+            const room = createRoom({ headless: true, seed: 6, arena });
+            room.start();
+
+            room.getEntities().find((e) => e.id === 'north_keep')!.takeDamage(Infinity);
+            room.step(1);
+
+            expect(room.getResult()).toMatchObject({
+                winnerId: 'player1',
+                outcome: 'win',
+                crowns: { player1: 3, player2: 0 },
+            });
+        });
+    });
+
+    describe('Modo headless', () => {
+        it('deve executar ticks de forma síncrona e retornar os eventos emitidos', () => {
+            const room = createRoom({ headless: true, seed: 3, initialMana: 10 });
+            room.start();
+            room.queueSpawnRequest(1, 1, 0, 15, 10);
+
+            const result = room.step(10);
+
+            expect(result.ticksRun).toBe(10);
+            expect(result.state.tick).toBe(10);
+            expect(result.events.filter((e) => e.message.type === 'GAME_TICK')).toHaveLength(10);
+            expect(result.events.find((e) => e.message.type === 'ACTION_ACK')).toMatchObject({
+                tick: 1,
+                target: 1,
+            });
+        });
+
+        it('deve esvaziar o log de eventos a cada step()', () => {
+            const room = createRoom({ headless: true, seed: 3 });
+            room.start();
+
+            const first = room.step(5);
+
+            expect(first.events.some((e) => e.message.type === 'HAND_UPDATE')).toBe(true);
+            expect(room.drainEvents()).toHaveLength(0);
+            expect(room.step(5).events.filter((e) => e.message.type === 'GAME_TICK')).toHaveLength(5);
+        });
+
+        it('deve rodar uma partida completa até o fim com runUntil()', () => {
+            const room = createRoom({
+                headless: true,
+                seed: 3,
+                maxDuration: 5,
+                overtimeDuration: 0,
+                suddenDeathDuration: 0,
+            });
+            room.start();
+
+            const result = room.runUntil((r) => r.getResult() !== null);
+
+            expect(result.satisfied).toBe(true);
+            expect(result.ticksRun).toBe(100);
+            expect(room.getState().isRunning).toBe(false);
+            expect(room.getResult()).toMatchObject({ outcome: 'draw', winnerId: null, tick: 100 });
+        });
+
+        it('deve parar runUntil() no limite de ticks', () => {
+            const room = createRoom({ headless: true, seed: 3 });
+            room.start();
+
+            const result = room.runUntil(() => false, 30);
+
+            expect(result.satisfied).toBe(false);
+            expect(result.ticksRun).toBe(30);
+        });
+
+        it('❌ deve recusar step() fora do modo headless', () => {
+            const room = createRoom({ clock: new FakeClock() });
+            room.start();
+
+            expect(() => room.step()).toThrow();
+            room.stop();
+        });
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * Magic Royale - Entity Test Fixtures
+ *
+ * Fábricas de entidades compartilhadas pelos testes unitários.
+ * Cada teste sobrescreve apenas os campos que importam para ele.
+ *
+ * @module tests/helpers/entity
+ */
+
+import { createEntity } from '../../src/core/game/entity.js';
+import type { GameEntity, EntityConfig, EntityStats } from '../../src/core/game/entity.js';
+import { DamageType } from '../../src/core/types/damage.js';
+
+/**
+ * Configuração de uma unidade de teste (os stats também aceitam sobrescrita parcial).
+ */
+export interface TestUnitConfig extends Partial<Omit<EntityConfig, 'stats'>> {
+    stats?: Partial<EntityStats>;
+}
+
+/**
+ * Stats de um corpo-a-corpo parado, sem área nem resistências.
+ */
+export function makeStats(overrides: Partial<EntityStats> = {}): EntityStats {
+    return {
+        hp: 200,
+        maxHp: 200,
+        damage: 50,
+        attackSpeed: 1,
+        range: 1,
+        aggroRange: 5,
+        moveSpeed: 0,
+        projectileSpeed: 0,
+        splashRadius: 0,
+        splashFalloff: 0,
+        damageType: DamageType.PHYSICAL,
+        armor: 0,
+        magicResist: 0,
+        ...overrides,
+    };
+}
+
+/**
+ * Cria uma unidade terrestre do player1 na origem com os stats padrão.
+ */
+export function makeUnit(config: TestUnitConfig = {}): GameEntity {
+    const { stats, ...overrides } = config;
+    return createEntity({
+        id: 'unit',
+        ownerId: 'player1',
+        unitId: 'knight_base',
+        position: { x: 0, y: 0 },
+        ...overrides,
+        stats: makeStats(stats),
+    });
+}
@@ -0,0 +1,90 @@
+/**
+ * Magic Royale - Movement Layer Tests
+ *
+ * Testes unitários para unidades aéreas e a regra de alvos ar/solo.
+ *
+ * @module tests/movement-layers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CombatSystem } from '../src/core/game/combat.js';
+import { PhysicsSystem } from '../src/core/game/physics.js';
+import { applySplashDamage } from '../src/core/game/splash.js';
+import type { GameEntity } from '../src/core/game/entity.js';
+import { DamageType } from '../src/core/types/damage.js';
+import { MovementLayer } from '../src/core/types/unit.js';
+import { makeUnit as makeTestUnit } from './helpers/entity.js';
+import type { TestUnitConfig } from './helpers/entity.js';
+
+function makeUnit(config: TestUnitConfig = {}): GameEntity {
+    return makeTestUnit({ position: { x: 10, y: 10 }, ...config });
+}
+
+describe('Movement Layers', () => {
+    it('❌ corpo-a-corpo não deve atacar unidades aéreas', () => {
+        const combat = new CombatSystem({ logAttacks: false });
+        const knight = makeUnit({ id: 'knight' });
+        const wyvern = makeUnit({
+            id: 'wyvern',
+            ownerId: 'player2',
+            position: { x: 10.5, y: 10 },
+            movementLayer: MovementLayer.AIR,
+            isActive: false,
+        });
+
+        combat.update([knight, wyvern], 0, 1, 0.05);
+
+        expect(knight.canTarget(wyvern)).toBe(false);
+        expect(knight.targetId).toBeNull();
+        expect(wyvern.stats.hp).toBe(200);
+    });
+
+    it('✅ unidades com canTargetAir devem atacar unidades aéreas', () => {
+        const combat = new CombatSystem({ logAttacks: false });
+        const guard = makeUnit({ id: 'guard', targetLayers: [MovementLayer.GROUND, MovementLayer.AIR] });
+        const wyvern = makeUnit({
+            id: 'wyvern',
+            ownerId: 'player2',
+            position: { x: 10.5, y: 10 },
+            movementLayer: MovementLayer.AIR,
+            isActive: false,
+        });
+
+        combat.update([guard, wyvern], 0, 1, 0.05);
+
+        expect(guard.targetId).toBe('wyvern');
+        expect(wyvern.stats.hp).toBe(150);
+    });
+
+    it('unidades aéreas não devem colidir com unidades terrestres', () => {
+        const physics = new PhysicsSystem();
+        const ground = makeUnit({ id: 'ground' });
+        const flyer = makeUnit({ id: 'flyer', position: { x: 10.2, y: 10 }, movementLayer: MovementLayer.AIR });
+        const otherFlyer = makeUnit({ id: 'other', position: { x: 10.2, y: 10.2 }, movementLayer: MovementLayer.AIR });
+
+        physics.update([ground, flyer, otherFlyer], 0.05);
+
+        expect(ground.position).toEqual({ x: 10, y: 10 });
+        expect(flyer.position).not.toEqual({ x: 10.2, y: 10 });
+    });
+
+    it('❌ dano em área de quem só ataca o solo não deve atingir unidades aéreas', () => {
+        const flyer = makeUnit({ id: 'flyer', ownerId: 'player2', movementLayer: MovementLayer.AIR });
+        const ground = makeUnit({ id: 'ground', ownerId: 'player2', position: { x: 10.5, y: 10 } });
+
+        const hits = applySplashDamage({
+            ownerId: 'player1',
+            sourceId: 'attacker',
+            primaryTargetId: 'none',
+            position: { x: 10, y: 10 },
+            damage: 100,
+            source: { damageType: DamageType.PHYSICAL, tags: [] },
+            targetLayers: [MovementLayer.GROUND],
+            radius: 2,
+            falloff: 0,
+            friendlyFire: false,
+        }, [flyer, ground]);
+
+        expect(hits.map((hit) => hit.entity.id)).toEqual(['ground']);
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Magic Royale - Pathfinding Tests
+ *
+ * Testes unitários para o rio, as pontes e as rotas de unidades terrestres.
+ *
+ * @module tests/pathfinding
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PhysicsSystem, getDistance } from '../src/core/game/physics.js';
+import { ProjectileSystem } from '../src/core/game/projectiles.js';
+import { getNextWaypoint, isInRiver, isPathClear, pushOutOfRiver } from '../src/core/game/pathfinding.js';
+import type { GameEntity } from '../src/core/game/entity.js';
+import { MovementLayer } from '../src/core/types/unit.js';
+import type { RiverDefinition } from '../src/core/types/arena.js';
+import { makeUnit } from './helpers/entity.js';
+import type { TestUnitConfig } from './helpers/entity.js';
+
+const RIVER: RiverDefinition = {
+    minY: 19,
+    maxY: 21,
+    bridges: [
+        { minX: 3.5, maxX: 6.5 },
+        { minX: 23.5, maxX: 26.5 },
+    ],
+};
+
+function makeWalker(config: TestUnitConfig = {}): GameEntity {
+    const entity = makeUnit({
+        id: 'walker',
+        position: { x: 12, y: 10 },
+        ...config,
+        stats: { hp: 100, maxHp: 100, damage: 0, moveSpeed: 4 },
+    });
+    entity.targetPosition = { x: 12, y: 30 };
+    entity.isMoving = true;
+    return entity;
+}
+
+describe('Pathfinding', () => {
+    it('deve ir direto quando o caminho não cruza o rio fora das pontes', () => {
+        expect(getNextWaypoint({ x: 12, y: 5 }, { x: 20, y: 15 }, RIVER)).toEqual({ x: 20, y: 15 });
+        expect(isPathClear({ x: 5, y: 10 }, { x: 5.5, y: 30 }, RIVER)).toBe(true);
+    });
+
+    it('deve rotear pela ponte mais conveniente e seguir para a outra margem ao alinhar', () => {
+        expect(getNextWaypoint({ x: 14, y: 10 }, { x: 8, y: 30 }, RIVER)).toEqual({ x: 5, y: 18.5 });
+        expect(getNextWaypoint({ x: 16, y: 30 }, { x: 20, y: 5 }, RIVER)).toEqual({ x: 25, y: 21.5 });
+        expect(getNextWaypoint({ x: 5, y: 18.5 }, { x: 14, y: 30 }, RIVER)).toEqual({ x: 5, y: 21.5 });
+    });
+
+    it('deve tirar da água a unidade empurrada para dentro do rio', () => {
+        const position = { x: 15, y: 19.3 };
+
+        expect(pushOutOfRiver(position, RIVER)).toBe(true);
+        expect(position).toEqual({ x: 15, y: 19 });
+        expect(pushOutOfRiver({ x: 5, y: 20 }, RIVER)).toBe(false);
+    });
+
+    it('unidades terrestres devem atravessar pela ponte sem entrar na água', () => {
+        const physics = new PhysicsSystem({ river: RIVER });
+        const walker = makeWalker();
+
+        for (let i = 0; i < 200 && walker.isMoving; i++) {
+            physics.update([walker], 0.05);
+            expect(isInRiver(walker.position, RIVER)).toBe(false);
+        }
+
+        expect(walker.position.y).toBeCloseTo(30, 0);
+    });
+
+    it('unidades aéreas devem cruzar o rio em linha reta', () => {
+        const physics = new PhysicsSystem({ river: RIVER });
+        const flyer = makeWalker({ movementLayer: MovementLayer.AIR });
+
+        for (let i = 0; i < 10; i++) {
+            physics.update([flyer], 0.05);
+        }
+
+        expect(flyer.position.x).toBe(12);
+        expect(flyer.position.y).toBeCloseTo(12);
+    });
+
+    it('projéteis devem mirar pela rota da ponte de alvos terrestres', () => {
+        const physics = new PhysicsSystem({ river: RIVER });
+        const projectiles = new ProjectileSystem({ logHits: false, river: RIVER });
+        const archer = makeUnit({
+            id: 'archer',
+            ownerId: 'player2',
+            unitId: 'archer_base',
+            position: { x: 12, y: 10 },
+            stats: { projectileSpeed: 10 },
+        });
+        const walker = makeWalker({ position: { x: 12, y: 17 } });
+
+        const projectile = projectiles.launch(archer, walker);
+
+        // Voo de 0.7s: o alvo anda 2.8 unidades rumo à ponte da esquerda, não em linha reta pelo rio
+        expect(getDistance(walker.position, projectile.impactPosition)).toBeCloseTo(2.8);
+        expect(projectile.impactPosition.x).toBeLessThan(11);
+        expect(projectile.impactPosition.y).toBeLessThan(RIVER.minY);
+
+        for (let i = 0; i < 20; i++) {
+            physics.update([archer, walker], 0.05);
+            projectiles.update([archer, walker], 0.05, i, i * 50);
+        }
+
+        expect(projectiles.getProjectiles()).toHaveLength(0);
+        expect(walker.stats.hp).toBe(50);
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Magic Royale - Projectile Tests
+ *
+ * Testes unitários para projéteis de ataques à distância.
+ *
+ * @module tests/projectiles
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ProjectileSystem } from '../src/core/game/projectiles.js';
+import type { GameEntity } from '../src/core/game/entity.js';
+import { makeUnit } from './helpers/entity.js';
+import type { TestUnitConfig } from './helpers/entity.js';
+
+const DELTA = 0.05; // 20Hz
+
+/** Arqueira com projéteis a 10u/s */
+function makeArcher(config: TestUnitConfig = {}): GameEntity {
+    return makeUnit({
+        id: 'archer',
+        unitId: 'archer_base',
+        ...config,
+        stats: { hp: 100, maxHp: 100, damage: 30, range: 6, aggroRange: 10, projectileSpeed: 10 },
+    });
+}
+
+function setup(): { system: ProjectileSystem; archer: GameEntity; target: GameEntity } {
+    const archer = makeArcher();
+    const target = makeUnit({
+        id: 'target',
+        ownerId: 'player2',
+        position: { x: 0, y: 5 },
+        stats: { hp: 100, maxHp: 100 },
+    });
+    return { system: new ProjectileSystem({ logHits: false }), archer, target };
+}
+
+describe('ProjectileSystem', () => {
+    it('deve aplicar o dano apenas quando o projétil chega', () => {
+        const { system, archer, target } = setup();
+
+        system.launch(archer, target);
+        for (let i = 0; i < 9; i++) system.update([archer, target], DELTA, i, i * DELTA * 1000);
+
+        // 5 unidades a 10u/s = 0.5s = 10 ticks
+        expect(target.stats.hp).toBe(100);
+        expect(system.getProjectiles()).toHaveLength(1);
+
+        system.update([archer, target], DELTA, 10, 10 * DELTA * 1000);
+
+        expect(target.stats.hp).toBe(70);
+        expect(system.getProjectiles()).toHaveLength(0);
+    });
+
+    it('❌ deve errar se o alvo sair do ponto de impacto', () => {
+        const { system, archer, target } = setup();
+
+        system.launch(archer, target);
+        target.position = { x: 3, y: 5 };
+        for (let i = 0; i < 10; i++) system.update([archer, target], DELTA, i, i * DELTA * 1000);
+
+        expect(target.stats.hp).toBe(100);
+        expect(system.getProjectiles()).toHaveLength(0);
+    });
+
+    it('o alvo que escapou do acerto direto ainda deve receber o dano em área', () => {
+        const { system, archer, target } = setup();
+        archer.stats.splashRadius = 2;
+        archer.stats.splashFalloff = 0.5;
+
+        system.launch(archer, target);
+        target.position = { x: 1.5, y: 5 };
+        for (let i = 0; i < 10; i++) system.update([archer, target], DELTA, i, i * DELTA * 1000);
+
+        // Errou o acerto direto (1.5 > raio + folga), mas está dentro da área
+        expect(target.stats.hp).toBeLessThan(100);
+        expect(target.stats.hp).toBeGreaterThan(70);
+        expect(system.getProjectiles()).toHaveLength(0);
+    });
+
+    it('deve mirar à frente de alvos em movimento', () => {
+        const { system, archer, target } = setup();
+        target.moveSpeed = 2;
+        target.isMoving = true;
+        target.targetPosition = { x: 10, y: 5 };
+
+        const projectile = system.launch(archer, target);
+
+        // Voo de 0.5s: o alvo anda 1 unidade para a direita
+        expect(projectile.impactPosition.x).toBeCloseTo(1);
+        expect(projectile.impactPosition.y).toBeCloseTo(5);
+    });
+});
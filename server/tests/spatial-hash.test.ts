@@ -0,0 +1,91 @@
+/**
+ * Magic Royale - Spatial Hash Tests
+ *
+ * Testes unitários para o índice espacial (broadphase da física e do combate).
+ *
+ * @module tests/spatial-hash
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SpatialHash } from '../src/core/game/spatial-hash.js';
+import type { SpatialEntity } from '../src/core/game/spatial-hash.js';
+import { createSeededRandom } from '../src/core/game/random.js';
+
+interface Dot extends SpatialEntity {
+    id: number;
+}
+
+function scatter(count: number, seed: number): Dot[] {
+    const random = createSeededRandom(seed);
+    return Array.from({ length: count }, (_, id) => ({
+        id,
+        position: { x: random() * 30, y: random() * 40 },
+        radius: id % 10 === 0 ? 1.5 : 0.5,
+    }));
+}
+
+describe('SpatialHash', () => {
+    it('deve retornar os mesmos vizinhos de uma varredura linear, na ordem da lista', () => {
+        const dots = scatter(300, 1);
+        const index = new SpatialHash<Dot>();
+        index.rebuild(dots);
+
+        const center = { x: 12, y: 18 };
+        const expected = dots.filter((d) => Math.hypot(d.position.x - center.x, d.position.y - center.y) <= 6);
+
+        expect(index.queryRadius(center, 6).map((d) => d.id)).toEqual(expected.map((d) => d.id));
+        expect(index.queryRadius(center, 6, (d) => d.id % 2 === 0)).toEqual(expected.filter((d) => d.id % 2 === 0));
+    });
+
+    it('deve encontrar o mais próximo dentro do raio, como uma varredura linear', () => {
+        const dots = scatter(300, 3);
+        const index = new SpatialHash<Dot>();
+        index.rebuild(dots);
+
+        for (const center of [{ x: 3, y: 4 }, { x: 15, y: 20 }, { x: -5, y: 50 }]) {
+            const odd = (d: Dot) => d.id % 2 === 1;
+            let expected: Dot | null = null;
+            let minDistance = 8;
+            for (const dot of dots.filter(odd)) {
+                const distance = Math.hypot(dot.position.x - center.x, dot.position.y - center.y);
+                if (distance < minDistance) {
+                    minDistance = distance;
+                    expected = dot;
+                }
+            }
+
+            expect(index.findNearest(center, 8, odd)).toBe(expected);
+        }
+    });
+
+    it('deve listar os pares sobrepostos como o laço O(n²)', () => {
+        const dots = scatter(300, 2);
+        const index = new SpatialHash<Dot>();
+        index.rebuild(dots);
+
+        const expected: [number, number][] = [];
+        for (let i = 0; i < dots.length; i++) {
+            for (let j = i + 1; j < dots.length; j++) {
+                const a = dots[i];
+                const b = dots[j];
+                if (Math.hypot(b.position.x - a.position.x, b.position.y - a.position.y) < a.radius + b.radius) {
+                    expected.push([a.id, b.id]);
+                }
+            }
+        }
+
+        expect(index.getOverlappingPairs().map(([a, b]) => [a.id, b.id])).toEqual(expected);
+    });
+
+    it('deve encontrar a entidade na nova célula após update()', () => {
+        const dot: Dot = { id: 0, position: { x: 1, y: 1 }, radius: 0.5 };
+        const index = new SpatialHash<Dot>();
+        index.rebuild([dot]);
+
+        dot.position = { x: 25, y: 35 };
+        index.update(dot);
+
+        expect(index.queryRadius({ x: 1, y: 1 }, 2)).toEqual([]);
+        expect(index.queryRadius({ x: 25, y: 35 }, 1)).toEqual([dot]);
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Magic Royale - Splash Damage Tests
+ *
+ * Testes unitários para o dano em área.
+ *
+ * @module tests/splash
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applySplashDamage, getSplashDamage } from '../src/core/game/splash.js';
+import type { SplashImpact } from '../src/core/game/splash.js';
+import type { GameEntity } from '../src/core/game/entity.js';
+import { DamageType } from '../src/core/types/damage.js';
+import { MovementLayer } from '../src/core/types/unit.js';
+import { makeUnit } from './helpers/entity.js';
+
+function placeUnit(id: string, ownerId: 'player1' | 'player2', x: number, y: number): GameEntity {
+    return makeUnit({ id, ownerId, position: { x, y }, radius: 0 });
+}
+
+function makeImpact(overrides: Partial<SplashImpact> = {}): SplashImpact {
+    return {
+        ownerId: 'player1',
+        sourceId: 'mage',
+        primaryTargetId: 'target',
+        position: { x: 10, y: 10 },
+        damage: 100,
+        source: { damageType: DamageType.PHYSICAL, tags: [] },
+        targetLayers: [MovementLayer.GROUND],
+        radius: 2,
+        falloff: 0.5,
+        friendlyFire: false,
+        ...overrides,
+    };
+}
+
+describe('Splash Damage', () => {
+    it('deve decair linearmente até a borda', () => {
+        expect(getSplashDamage(100, 0, 2, 0.5)).toBe(100);
+        expect(getSplashDamage(100, 1, 2, 0.5)).toBe(75);
+        expect(getSplashDamage(100, 2, 2, 0.5)).toBe(50);
+    });
+
+    it('deve atingir inimigos na área, exceto o alvo principal', () => {
+        const mage = placeUnit('mage', 'player1', 10, 5);
+        const target = placeUnit('target', 'player2', 10, 10);
+        const near = placeUnit('near', 'player2', 11, 10);
+        const far = placeUnit('far', 'player2', 14, 10);
+
+        const hits = applySplashDamage(makeImpact(), [mage, target, near, far]);
+
+        expect(hits.map((hit) => hit.entity.id)).toEqual(['near']);
+        expect(target.stats.hp).toBe(200);
+        expect(near.stats.hp).toBe(125);
+        expect(far.stats.hp).toBe(200);
+    });
+
+    it('❌ não deve atingir aliados sem fogo amigo', () => {
+        const mage = placeUnit('mage', 'player1', 10, 9);
+        const ally = placeUnit('ally', 'player1', 10, 11);
+
+        const hits = applySplashDamage(makeImpact(), [mage, ally]);
+
+        expect(hits).toHaveLength(0);
+        expect(ally.stats.hp).toBe(200);
+        expect(mage.stats.hp).toBe(200);
+    });
+
+    it('deve atingir aliados com fogo amigo, mas nunca o atacante', () => {
+        const mage = placeUnit('mage', 'player1', 10, 9);
+        const ally = placeUnit('ally', 'player1', 10, 11);
+
+        const hits = applySplashDamage(makeImpact({ friendlyFire: true }), [mage, ally]);
+
+        expect(hits.map((hit) => hit.entity.id)).toEqual(['ally']);
+        expect(mage.stats.hp).toBe(200);
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Magic Royale - Status Effect Tests
+ *
+ * Testes unitários para efeitos de status (queimadura, lentidão,
+ * congelamento e atordoamento).
+ *
+ * @module tests/status-effects
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StatusEffectSystem, applyStatusEffect } from '../src/core/game/status-effects.js';
+import { StatusEffectType } from '../src/core/types/status-effect.js';
+import type { GameEntity } from '../src/core/game/entity.js';
+import { makeUnit } from './helpers/entity.js';
+
+const DELTA = 0.05; // 20Hz
+
+function makeKnight(): GameEntity {
+    return makeUnit({ id: 'knight', ownerId: 'player2', stats: { damage: 10, moveSpeed: 2 } });
+}
+
+/** Avança o sistema por `seconds` segundos a partir de `startMs` */
+function run(system: StatusEffectSystem, entity: GameEntity, startMs: number, seconds: number): void {
+    const ticks = Math.round(seconds / DELTA);
+    for (let i = 1; i <= ticks; i++) {
+        system.update([entity], startMs + i * DELTA * 1000, DELTA, i);
+    }
+}
+
+describe('Status Effects', () => {
+    it('deve acumular queimadura até o máximo e causar dano por segundo', () => {
+        const unit = makeKnight();
+        const burn = { type: StatusEffectType.BURN, duration: 3, magnitude: 10, maxStacks: 2 };
+
+        applyStatusEffect(unit, burn, 0);
+        applyStatusEffect(unit, burn, 0);
+        applyStatusEffect(unit, burn, 0);
+
+        expect(unit.statusEffects.get(StatusEffectType.BURN)?.stacks).toBe(2);
+
+        run(new StatusEffectSystem({ logEffects: false }), unit, 0, 1);
+        expect(unit.stats.hp).toBeCloseTo(180);
+    });
+
+    it('deve manter a lentidão mais forte e reduzir movimento e ataque', () => {
+        const unit = makeKnight();
+        const system = new StatusEffectSystem({ logEffects: false });
+
+        applyStatusEffect(unit, { type: StatusEffectType.SLOW, duration: 2, magnitude: 0.5 }, 0);
+        applyStatusEffect(unit, { type: StatusEffectType.SLOW, duration: 4, magnitude: 0.2 }, 0);
+        system.update([unit], 50, DELTA, 1);
+
+        const slow = unit.statusEffects.get(StatusEffectType.SLOW)!;
+        expect(slow.magnitude).toBe(0.5);
+        expect(slow.expiresAt).toBe(4000);
+        expect(unit.moveSpeed).toBe(1);
+
+        // Cooldown de 1s vira 2s
+        unit.lastAttackTime = 0;
+        expect(unit.canAttack(1500)).toBe(false);
+        expect(unit.canAttack(2000)).toBe(true);
+    });
+
+    it('deve expirar efeitos e restaurar a velocidade', () => {
+        const unit = makeKnight();
+        const system = new StatusEffectSystem({ logEffects: false });
+
+        applyStatusEffect(unit, { type: StatusEffectType.SLOW, duration: 1, magnitude: 0.5 }, 0);
+        applyStatusEffect(unit, { type: StatusEffectType.FREEZE, duration: 1 }, 0);
+        expect(unit.isFrozen(500)).toBe(true);
+
+        run(system, unit, 0, 1);
+
+        expect(unit.statusEffects.size).toBe(0);
+        expect(unit.isDisabled(1000)).toBe(false);
+        expect(unit.moveSpeed).toBe(2);
+    });
+
+    it('deve interromper o ataque ao atordoar', () => {
+        const unit = makeKnight();
+
+        applyStatusEffect(unit, { type: StatusEffectType.STUN, duration: 0.5 }, 3000);
+
+        expect(unit.isDisabled(3200)).toBe(true);
+        expect(unit.canAttack(3500)).toBe(false);
+        expect(unit.canAttack(4000)).toBe(true);
+    });
+});
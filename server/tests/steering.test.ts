@@ -0,0 +1,87 @@
+/**
+ * Magic Royale - Steering Tests
+ *
+ * Testes unitários para o movimento com steering (arrive, desvio de obstáculos e separação).
+ *
+ * @module tests/steering
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PhysicsSystem, getDistance } from '../src/core/game/physics.js';
+import type { PhysicsEntity, Vector2D } from '../src/core/game/physics.js';
+
+function makeMover(id: string, x: number, y: number, target: Vector2D | null): PhysicsEntity {
+    return {
+        id,
+        position: { x, y },
+        radius: 0.5,
+        moveSpeed: 2,
+        targetPosition: target,
+        isMoving: target !== null,
+    };
+}
+
+function run(physics: PhysicsSystem, entities: PhysicsEntity[], ticks: number, onTick?: () => void): void {
+    for (let i = 0; i < ticks; i++) {
+        physics.update(entities, 0.05);
+        onTick?.();
+    }
+}
+
+describe('Steering', () => {
+    it('deve parar no alcance de ataque em vez de encostar no alvo', () => {
+        const physics = new PhysicsSystem({ river: null });
+        const unit = { ...makeMover('unit', 10, 10, { x: 10, y: 15 }), arriveDistance: 2 };
+
+        run(physics, [unit], 100);
+
+        expect(unit.isMoving).toBe(false);
+        expect(getDistance(unit.position, { x: 10, y: 15 })).toBeGreaterThan(1.9);
+        expect(getDistance(unit.position, { x: 10, y: 15 })).toBeLessThanOrEqual(2);
+    });
+
+    it('deve contornar a torre no caminho sem se sobrepor a ela', () => {
+        const physics = new PhysicsSystem({ river: null });
+        const tower: PhysicsEntity = {
+            id: 'tower',
+            position: { x: 15, y: 14 },
+            radius: 1.5,
+            moveSpeed: 0,
+            targetPosition: null,
+            isMoving: false,
+            isTower: true,
+        };
+        const unit = makeMover('unit', 15, 10, { x: 15, y: 18 });
+
+        let closest = Infinity;
+        run(physics, [tower, unit], 200, () => {
+            closest = Math.min(closest, getDistance(unit.position, tower.position));
+        });
+
+        expect(closest).toBeGreaterThanOrEqual(tower.radius + unit.radius);
+        expect(getDistance(unit.position, { x: 15, y: 18 })).toBeLessThan(0.2);
+    });
+
+    it('unidades lado a lado devem se afastar antes de se encostarem', () => {
+        const physics = new PhysicsSystem({ river: null });
+        const a = makeMover('a', 10, 10, { x: 10, y: 30 });
+        const b = makeMover('b', 11.1, 10, { x: 11.1, y: 30 });
+
+        run(physics, [a, b], 10);
+
+        expect(getDistance(a.position, b.position)).toBeGreaterThan(1.1);
+    });
+
+    it('a unidade pesada deve empurrar a leve na proporção das massas', () => {
+        const physics = new PhysicsSystem({ river: null, separationWeight: 0 });
+        const heavy = { ...makeMover('heavy', 10, 10, null), mass: 4 };
+        const light = { ...makeMover('light', 10.6, 10, null), mass: 1 };
+
+        run(physics, [heavy, light], 1);
+
+        const heavyShift = 10 - heavy.position.x;
+        const lightShift = light.position.x - 10.6;
+        expect(heavyShift).toBeGreaterThan(0);
+        expect(lightShift / heavyShift).toBeCloseTo(4);
+    });
+});
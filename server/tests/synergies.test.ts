@@ -0,0 +1,69 @@
+/**
+ * Magic Royale - Synergy Tests
+ *
+ * Testes unitários para os bônus de afinidade entre unidades.
+ *
+ * @module tests/synergies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SynergySystem } from '../src/core/game/synergies.js';
+import type { GameEntity } from '../src/core/game/entity.js';
+import { AffinityTag } from '../src/core/types/tags.js';
+import { makeUnit } from './helpers/entity.js';
+
+let counter = 0;
+
+function makeTagged(tags: AffinityTag[], x: number, ownerId: 'player1' | 'player2' = 'player1'): GameEntity {
+    counter++;
+    return makeUnit({
+        id: `unit_${counter}`,
+        ownerId,
+        position: { x, y: 10 },
+        tags,
+        stats: { hp: 100, maxHp: 100 },
+    });
+}
+
+describe('SynergySystem', () => {
+    const system = new SynergySystem();
+
+    it('deve ativar a aura SOLAR para todos os aliados a partir de 3 unidades', () => {
+        const solar = [0, 1, 2].map((x) => makeTagged([AffinityTag.SOLAR], x));
+        const knight = makeTagged([AffinityTag.STEEL], 20);
+        const enemy = makeTagged([AffinityTag.SOLAR], 5, 'player2');
+
+        const active = system.update([...solar, knight, enemy]);
+
+        expect(active.player1).toContainEqual({ synergyId: 'solar_radiance', affected: 4 });
+        expect(active.player2).toEqual([]);
+        expect(knight.getDamage()).toBe(60);
+        expect(enemy.getDamage()).toBe(50);
+    });
+
+    it('❌ não deve ativar abaixo do mínimo e deve limpar bônus anteriores', () => {
+        const solar = [0, 1, 2].map((x) => makeTagged([AffinityTag.SOLAR], x));
+        system.update(solar);
+
+        solar[2].takeDamage(100);
+        const active = system.update(solar);
+
+        expect(active.player1).toEqual([]);
+        expect(solar[0].getDamage()).toBe(50);
+    });
+
+    it('deve ativar a muralha STEEL apenas para unidades próximas', () => {
+        const near1 = makeTagged([AffinityTag.STEEL], 0);
+        const near2 = makeTagged([AffinityTag.STEEL], 2);
+        const far = makeTagged([AffinityTag.STEEL], 15);
+
+        const active = system.update([near1, near2, far]);
+
+        expect(active.player1).toContainEqual({ synergyId: 'steel_wall', affected: 2 });
+
+        near1.takeDamage(100);
+        far.takeDamage(50);
+        expect(near1.stats.hp).toBe(15);
+        expect(far.stats.hp).toBe(50);
+    });
+});
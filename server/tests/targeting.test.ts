@@ -0,0 +1,88 @@
+/**
+ * Magic Royale - Targeting Policy Tests
+ *
+ * Testes unitários para as políticas de escolha de alvo do combate.
+ *
+ * @module tests/targeting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CombatSystem } from '../src/core/game/combat.js';
+import type { GameEntity } from '../src/core/game/entity.js';
+import { TargetingPolicy } from '../src/core/types/unit.js';
+import { makeUnit as makeTestUnit } from './helpers/entity.js';
+import type { TestUnitConfig } from './helpers/entity.js';
+
+function makeUnit(config: TestUnitConfig = {}): GameEntity {
+    return makeTestUnit({
+        ownerId: 'player2',
+        position: { x: 10, y: 10 },
+        isActive: false,
+        ...config,
+        stats: { aggroRange: 8, moveSpeed: 1, ...config.stats },
+    });
+}
+
+function pickTarget(attacker: GameEntity, others: GameEntity[]): string | null {
+    new CombatSystem({ logAttacks: false }).update([attacker, ...others], 0, 1, 0.05);
+    return attacker.targetId;
+}
+
+describe('Targeting Policies', () => {
+    const tower = () => makeUnit({ id: 'tower', position: { x: 10, y: 30 }, isTower: true });
+
+    it('NEAREST deve priorizar a unidade mais próxima no aggroRange', () => {
+        const attacker = makeUnit({ id: 'attacker', ownerId: 'player1', isActive: true });
+        const near = makeUnit({ id: 'near', position: { x: 12, y: 10 } });
+        const far = makeUnit({ id: 'far', position: { x: 15, y: 10 } });
+
+        expect(pickTarget(attacker, [far, near, tower()])).toBe('near');
+    });
+
+    it('BUILDINGS deve ignorar tropas e seguir para a torre', () => {
+        const giant = makeUnit({
+            id: 'giant',
+            ownerId: 'player1',
+            isActive: true,
+            targetingPolicy: TargetingPolicy.BUILDINGS,
+        });
+        const blocker = makeUnit({ id: 'blocker', position: { x: 11, y: 10 } });
+
+        expect(pickTarget(giant, [blocker, tower()])).toBe('tower');
+    });
+
+    it('LOWEST_HP deve escolher a unidade mais frágil no aggroRange', () => {
+        const attacker = makeUnit({
+            id: 'attacker',
+            ownerId: 'player1',
+            isActive: true,
+            targetingPolicy: TargetingPolicy.LOWEST_HP,
+        });
+        const healthy = makeUnit({ id: 'healthy', position: { x: 11, y: 10 }, stats: { hp: 200 } });
+        const wounded = makeUnit({ id: 'wounded', position: { x: 14, y: 10 }, stats: { hp: 40 } });
+        const outOfRange = makeUnit({ id: 'out', position: { x: 25, y: 10 }, stats: { hp: 10 } });
+
+        expect(pickTarget(attacker, [healthy, wounded, outOfRange, tower()])).toBe('wounded');
+    });
+
+    it('HIGHEST_DAMAGE deve escolher a maior ameaça e cair na torre sem unidades', () => {
+        const attacker = makeUnit({
+            id: 'attacker',
+            ownerId: 'player1',
+            isActive: true,
+            targetingPolicy: TargetingPolicy.HIGHEST_DAMAGE,
+        });
+        const weak = makeUnit({ id: 'weak', position: { x: 11, y: 10 }, stats: { damage: 10 } });
+        const strong = makeUnit({ id: 'strong', position: { x: 14, y: 10 }, stats: { damage: 90 } });
+
+        expect(pickTarget(attacker, [weak, strong, tower()])).toBe('strong');
+
+        const alone = makeUnit({
+            id: 'alone',
+            ownerId: 'player1',
+            isActive: true,
+            targetingPolicy: TargetingPolicy.HIGHEST_DAMAGE,
+        });
+        expect(pickTarget(alone, [tower()])).toBe('tower');
+    });
+});
@@ -13,12 +13,14 @@ import {
     validateDeck,
     validateCard,
     calculateCardCost,
+    calculateEffectiveStats,
 } from '../src/core/validation/deck-validator.js';
 import { loadUnits, loadItems, clearDataCache } from '../src/data/loader.js';
 import type { UnitBase } from '../src/core/types/unit.js';
 import type { Item } from '../src/core/types/item.js';
 import type { PlayerDeck, PlayerInventory } from '../src/core/types/deck.js';
 import { ValidationErrorCode } from '../src/core/types/deck.js';
+import { DamageType } from '../src/core/types/damage.js';
 
 describe('Deck Validation System', () => {
     let knight: UnitBase;
@@ -133,6 +135,33 @@ describe('Deck Validation System', () => {
         });
     });
 
+    // ==========================================
+    // TESTES: calculateEffectiveStats
+    // ==========================================
+
+    describe('calculateEffectiveStats()', () => {
+        it('deve somar armadura dos itens e usar o tipo de dano da arma', () => {
+            const stats = calculateEffectiveStats(knight, [swordFlame, steelPlate]);
+
+            expect(stats.health).toBe(300); // 200 + 100
+            expect(stats.damage).toBe(75); // 25 + 50
+            expect(stats.armor).toBe(60); // 20 + 40
+            expect(stats.damageType).toBe(DamageType.FIRE);
+        });
+
+        it('deve somar a massa da armadura à massa da unidade', () => {
+            expect(calculateEffectiveStats(knight, []).mass).toBe(1.5);
+            expect(calculateEffectiveStats(knight, [steelPlate]).mass).toBe(2.5); // 1.5 + 1.0
+        });
+
+        it('deve usar dano físico quando nada define o tipo', () => {
+            const stats = calculateEffectiveStats(archer, []);
+
+            expect(stats.damageType).toBe(DamageType.PHYSICAL);
+            expect(stats.magicResist).toBe(0);
+        });
+    });
+
     // ==========================================
     // TESTES: validateDeck (integração)
     // ==========================================
@@ -160,6 +189,7 @@ describe('Deck Validation System', () => {
             const result = validateDeck(deck, mockInventory);
             expect(result.isValid).toBe(true);
             expect(result.errors).toHaveLength(0);
+            expect(result.effectiveStats?.[0]?.damageType).toBe(DamageType.FIRE);
         });
 
         it('❌ deve falhar para deck vazio', () => {
@@ -285,5 +315,35 @@ describe('Deck Validation System', () => {
 
             expect(errors.some((e) => e.code === ValidationErrorCode.DUPLICATE_SLOT)).toBe(true);
         });
+
+        it('✅ deve aceitar carta de feitiço sem equipamentos', () => {
+            const errors = validateCard({
+                slotIndex: 0,
+                baseUnitId: 'fireball',
+                equippedItems: [],
+            }, 0);
+
+            expect(errors).toEqual([]);
+        });
+
+        it('❌ deve BLOQUEAR equipamentos em carta de feitiço', () => {
+            const errors = validateCard({
+                slotIndex: 0,
+                baseUnitId: 'fireball',
+                equippedItems: ['sword_flame_t1'],
+            }, 0);
+
+            expect(errors[0].code).toBe(ValidationErrorCode.SPELL_CANNOT_EQUIP);
+        });
+
+        it('❌ deve BLOQUEAR equipamentos em carta de prédio', () => {
+            const errors = validateCard({
+                slotIndex: 0,
+                baseUnitId: 'cannon',
+                equippedItems: ['steel_plate_t2'],
+            }, 0);
+
+            expect(errors[0].code).toBe(ValidationErrorCode.BUILDING_CANNOT_EQUIP);
+        });
     });
 });
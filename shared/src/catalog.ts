@@ -2,7 +2,29 @@
  * Shared Catalog (Single Source of Truth)
  */
 
-import { UnitBase, Item, AffinityTag, SlotType } from './types.js';
+import {
+    UnitBase,
+    Item,
+    TowerDefinition,
+    BuildingDefinition,
+    SynergyDefinition,
+    SynergyScope,
+    SynergyBonusType,
+    TagDamageModifier,
+    DamageType,
+    SpellDefinition,
+    AffinityTag,
+    SlotType,
+    TowerRole,
+    SpellTarget,
+    StatusEffectType,
+    ItemAbilityType,
+    MovementLayer,
+    TargetingPolicy,
+    CardKind,
+    ArenaDefinition,
+    ArenaTowerPlacement
+} from './types.js';
 
 // ==========================================
 // UNITS
@@ -19,11 +41,14 @@ export const UNITS: UnitBase[] = [
             attackSpeed: 1.0,
             range: 1.5,
             aggroRange: 8.0,
-            moveSpeed: 2.0
+            moveSpeed: 2.0,
+            armor: 20
         },
 
         manaCost: 3,
         tags: [AffinityTag.HUMAN, AffinityTag.STEEL, AffinityTag.MELEE],
+        collisionRadius: 0.5,
+        mass: 1.5,
         slots: {
             [SlotType.WEAPON]: true,
             [SlotType.ARMOR]: true,
@@ -41,11 +66,15 @@ export const UNITS: UnitBase[] = [
             attackSpeed: 1.2,
             range: 6.0,
             aggroRange: 10.0,
-            moveSpeed: 2.5
+            moveSpeed: 2.5,
+            projectileSpeed: 15.0
         },
 
         manaCost: 3,
         tags: [AffinityTag.HUMAN, AffinityTag.NATURE, AffinityTag.RANGED],
+        canTargetAir: true,
+        collisionRadius: 0.4,
+        mass: 0.8,
         slots: {
             [SlotType.WEAPON]: true,
             [SlotType.ARMOR]: true,
@@ -63,17 +92,387 @@ export const UNITS: UnitBase[] = [
             attackSpeed: 0.8,
             range: 5.5,
             aggroRange: 9.0,
-            moveSpeed: 1.8
+            moveSpeed: 1.8,
+            projectileSpeed: 10.0,
+            splashRadius: 1.5,
+            splashFalloff: 0.5,
+            damageType: DamageType.MAGIC,
+            magicResist: 20
         },
 
         manaCost: 4,
         tags: [AffinityTag.HUMAN, AffinityTag.SOLAR, AffinityTag.RANGED],
+        canTargetAir: true,
+        collisionRadius: 0.4,
+        mass: 0.8,
         slots: {
             [SlotType.WEAPON]: true,
             [SlotType.ARMOR]: false,
             [SlotType.ARTIFACT]: true
         },
         sprite3d: 'models/mage_solar.glb'
+    },
+    {
+        unitId: 'giant_base',
+        name: 'Gigante',
+        description: 'Colosso lento e resistente. Ignora tropas e marcha direto contra as construções inimigas.',
+        baseStats: {
+            health: 900,
+            damage: 60,
+            attackSpeed: 0.7,
+            range: 1.2,
+            aggroRange: 7.0,
+            moveSpeed: 1.4,
+            armor: 30
+        },
+
+        manaCost: 5,
+        tags: [AffinityTag.HUMAN, AffinityTag.MELEE],
+        targetingPolicy: TargetingPolicy.BUILDINGS,
+        deployTime: 1.5,
+        collisionRadius: 0.9,
+        mass: 6,
+        slots: {
+            [SlotType.WEAPON]: false,
+            [SlotType.ARMOR]: true,
+            [SlotType.ARTIFACT]: true
+        },
+        sprite3d: 'models/giant.glb'
+    },
+    {
+        unitId: 'skeletonarmy_base',
+        name: 'Exército de Esqueletos',
+        description: 'Uma horda de esqueletos frágeis que cerca e derruba alvos isolados.',
+        baseStats: {
+            health: 40,
+            damage: 30,
+            attackSpeed: 1.0,
+            range: 0.8,
+            aggroRange: 6.0,
+            moveSpeed: 2.6
+        },
+
+        manaCost: 3,
+        tags: [AffinityTag.UNDEAD, AffinityTag.MELEE],
+        formation: {
+            count: 10,
+            spacing: 0.8
+        },
+        collisionRadius: 0.3,
+        mass: 0.3,
+        slots: {
+            [SlotType.WEAPON]: true,
+            [SlotType.ARMOR]: false,
+            [SlotType.ARTIFACT]: true
+        },
+        sprite3d: 'models/skeleton.glb'
+    },
+    {
+        unitId: 'goblins_base',
+        name: 'Goblins',
+        description: 'Trio de goblins velozes com adagas. Baratos e agressivos.',
+        baseStats: {
+            health: 110,
+            damage: 50,
+            attackSpeed: 0.9,
+            range: 0.8,
+            aggroRange: 7.0,
+            moveSpeed: 3.2
+        },
+
+        manaCost: 2,
+        tags: [AffinityTag.NATURE, AffinityTag.MELEE],
+        formation: {
+            count: 3,
+            spacing: 1.0
+        },
+        collisionRadius: 0.35,
+        mass: 0.6,
+        slots: {
+            [SlotType.WEAPON]: true,
+            [SlotType.ARMOR]: true,
+            [SlotType.ARTIFACT]: false
+        },
+        sprite3d: 'models/goblin.glb'
+    },
+    {
+        unitId: 'golem_base',
+        name: 'Golem de Pedra',
+        description: 'Rocha ambulante que avança contra construções. Ao ruir, explode e se parte em dois golemitas.',
+        baseStats: {
+            health: 1400,
+            damage: 60,
+            attackSpeed: 0.4,
+            range: 1.2,
+            aggroRange: 7.0,
+            moveSpeed: 1.2,
+            armor: 20
+        },
+
+        manaCost: 8,
+        tags: [AffinityTag.NATURE, AffinityTag.MELEE],
+        targetingPolicy: TargetingPolicy.BUILDINGS,
+        deathEffect: {
+            damage: 140,
+            radius: 2.0,
+            spawn: {
+                unitId: 'golemite_base',
+                count: 2
+            }
+        },
+        deployTime: 1.5,
+        collisionRadius: 1.0,
+        mass: 8,
+        slots: {
+            [SlotType.WEAPON]: false,
+            [SlotType.ARMOR]: true,
+            [SlotType.ARTIFACT]: true
+        },
+        sprite3d: 'models/golem.glb'
+    },
+    {
+        unitId: 'golemite_base',
+        name: 'Golemita',
+        description: 'Fragmento do golem. Continua a marcha contra as construções e também explode ao ruir.',
+        baseStats: {
+            health: 300,
+            damage: 20,
+            attackSpeed: 0.4,
+            range: 1.0,
+            aggroRange: 6.0,
+            moveSpeed: 1.4,
+            armor: 10
+        },
+
+        manaCost: 2,
+        tags: [AffinityTag.NATURE, AffinityTag.MELEE],
+        targetingPolicy: TargetingPolicy.BUILDINGS,
+        deathEffect: {
+            damage: 50,
+            radius: 1.5
+        },
+        collisionRadius: 0.6,
+        mass: 2,
+        slots: {
+            [SlotType.WEAPON]: false,
+            [SlotType.ARMOR]: false,
+            [SlotType.ARTIFACT]: false
+        },
+        sprite3d: 'models/golemite.glb'
+    },
+    {
+        unitId: 'wyvern_base',
+        name: 'Serpe',
+        description: 'Fera alada do abismo. Sobrevoa o campo cuspindo fogo em área.',
+        baseStats: {
+            health: 260,
+            damage: 40,
+            attackSpeed: 0.7,
+            range: 3.5,
+            aggroRange: 8.0,
+            moveSpeed: 2.5,
+            projectileSpeed: 8.0,
+            splashRadius: 1.2,
+            splashFalloff: 0.5,
+            damageType: DamageType.FIRE
+        },
+
+        manaCost: 4,
+        tags: [AffinityTag.DEMON, AffinityTag.RANGED],
+        movementLayer: MovementLayer.AIR,
+        canTargetAir: true,
+        collisionRadius: 0.6,
+        mass: 2,
+        slots: {
+            [SlotType.WEAPON]: false,
+            [SlotType.ARMOR]: false,
+            [SlotType.ARTIFACT]: true
+        },
+        sprite3d: 'models/wyvern.glb'
+    }
+];
+
+// ==========================================
+// SPELLS
+// ==========================================
+
+export const SPELLS: SpellDefinition[] = [
+    {
+        spellId: 'fireball',
+        name: 'Bola de Fogo',
+        description: 'Explosão flamejante que atinge todos os inimigos na área. Causa dano reduzido em torres.',
+        manaCost: 4,
+        radius: 2.5,
+        target: SpellTarget.ENEMIES,
+        damage: 325,
+        damageType: DamageType.FIRE,
+        affectsTowers: true,
+        towerDamageMultiplier: 0.35
+    },
+    {
+        spellId: 'freeze',
+        name: 'Congelar',
+        description: 'Congela inimigos e torres na área, interrompendo movimento e ataques.',
+        manaCost: 4,
+        radius: 3.0,
+        target: SpellTarget.ENEMIES,
+        damage: 45,
+        damageType: DamageType.MAGIC,
+        effects: [{ type: StatusEffectType.FREEZE, duration: 4 }],
+        affectsTowers: true,
+        towerDamageMultiplier: 0.35
+    },
+    {
+        spellId: 'heal',
+        name: 'Cura',
+        description: 'Restaura a vida das tropas aliadas na área.',
+        manaCost: 3,
+        radius: 3.0,
+        target: SpellTarget.ALLIES,
+        heal: 150,
+        affectsTowers: false
+    }
+];
+
+// ==========================================
+// TOWERS
+// ==========================================
+
+export const TOWERS: TowerDefinition[] = [
+    {
+        towerId: 'tower_small',
+        name: 'Torre da Princesa',
+        description: 'Torre lateral de defesa. Dispara rapidamente contra tropas inimigas próximas.',
+        role: TowerRole.SIDE,
+        startsDormant: false,
+        baseStats: {
+            health: 2500,
+            damage: 50,
+            attackSpeed: 1.25,
+            range: 8.5,
+            radius: 1.5,
+            projectileSpeed: 18.0
+        }
+    },
+    {
+        towerId: 'tower_core',
+        name: 'Torre do Rei',
+        description: 'Coração da base. Mais resistente e com golpes mais pesados que as torres laterais. Desperta ao ser atingida ou ao perder uma torre lateral.',
+        role: TowerRole.CORE,
+        startsDormant: true,
+        baseStats: {
+            health: 4000,
+            damage: 80,
+            attackSpeed: 1.0,
+            range: 8.0,
+            radius: 2.0,
+            projectileSpeed: 15.0
+        }
+    }
+];
+
+// ==========================================
+// ARENAS
+// ==========================================
+
+// Layout padrão das torres: duas laterais e o core de cada lado, espelhados no eixo Y
+const STANDARD_TOWERS: ArenaTowerPlacement[] = [
+    // Torres do Player 1 (inferior)
+    { id: 't1_left', ownerId: 'player1', towerId: 'tower_small', position: { x: 5, y: 5 } },
+    { id: 't1_right', ownerId: 'player1', towerId: 'tower_small', position: { x: 25, y: 5 } },
+    { id: 't1_core', ownerId: 'player1', towerId: 'tower_core', position: { x: 15, y: 2 } },
+    // Torres do Player 2 (superior)
+    { id: 't2_left', ownerId: 'player2', towerId: 'tower_small', position: { x: 5, y: 35 } },
+    { id: 't2_right', ownerId: 'player2', towerId: 'tower_small', position: { x: 25, y: 35 } },
+    { id: 't2_core', ownerId: 'player2', towerId: 'tower_core', position: { x: 15, y: 38 } },
+];
+
+export const ARENAS: ArenaDefinition[] = [
+    {
+        arenaId: 'arena_classic',
+        name: 'Vale do Reino',
+        width: 30,
+        height: 40,
+        towers: STANDARD_TOWERS,
+        deployZones: {
+            player1: { minX: 0, maxX: 30, minY: 0, maxY: 15 },
+            player2: { minX: 0, maxX: 30, minY: 25, maxY: 40 }
+        },
+        // Uma ponte por rota lateral, alinhada com as torres laterais
+        river: {
+            minY: 19,
+            maxY: 21,
+            bridges: [
+                { minX: 3.5, maxX: 6.5 },
+                { minX: 23.5, maxX: 26.5 }
+            ]
+        }
+    },
+    {
+        arenaId: 'arena_central_bridge',
+        name: 'Passagem Central',
+        width: 30,
+        height: 40,
+        towers: STANDARD_TOWERS,
+        deployZones: {
+            player1: { minX: 0, maxX: 30, minY: 0, maxY: 15 },
+            player2: { minX: 0, maxX: 30, minY: 25, maxY: 40 }
+        },
+        // Uma única ponte larga no meio: todo ataque terrestre passa pelo centro
+        river: {
+            minY: 18,
+            maxY: 22,
+            bridges: [
+                { minX: 12, maxX: 18 }
+            ]
+        }
+    }
+];
+
+/** Arena usada quando a partida não escolhe outra */
+export const DEFAULT_ARENA: ArenaDefinition = ARENAS[0];
+
+// ==========================================
+// BUILDINGS
+// ==========================================
+
+export const BUILDINGS: BuildingDefinition[] = [
+    {
+        buildingId: 'cannon',
+        name: 'Canhão',
+        description: 'Defesa fixa de disparo pesado. Só atinge alvos terrestres e se desgasta com o tempo.',
+        manaCost: 3,
+        baseStats: {
+            health: 600,
+            damage: 60,
+            attackSpeed: 1.0,
+            range: 5.5,
+            radius: 0.8,
+            projectileSpeed: 14.0,
+            armor: 20
+        },
+        lifetime: 30,
+        tags: [AffinityTag.STEEL]
+    },
+    {
+        buildingId: 'hut',
+        name: 'Cabana',
+        description: 'Acampamento que envia arqueiras para a batalha até desabar.',
+        manaCost: 5,
+        baseStats: {
+            health: 700,
+            damage: 0,
+            attackSpeed: 0,
+            range: 0,
+            radius: 1.0
+        },
+        lifetime: 40,
+        spawner: {
+            unitId: 'archer_base',
+            interval: 10,
+            count: 1
+        },
+        tags: [AffinityTag.HUMAN]
     }
 ];
 
@@ -90,8 +489,10 @@ export const ITEMS: Item[] = [
         manaWeight: 1,
         statsModifier: {
             damage: 50,
-            attackSpeed: -0.1
+            attackSpeed: -0.1,
+            damageType: DamageType.FIRE
         },
+        onHitEffects: [{ type: StatusEffectType.BURN, duration: 3, magnitude: 10, maxStacks: 3 }],
         requirements: {
             allowedTags: [AffinityTag.HUMAN, AffinityTag.DEMON],
             forbiddenTags: [AffinityTag.WATER_ELEMENTAL, AffinityTag.NATURE]
@@ -108,6 +509,7 @@ export const ITEMS: Item[] = [
             damage: 20,
             range: 2.0
         },
+        abilities: [{ type: ItemAbilityType.CRITICAL, value: 0.2, multiplier: 2 }],
         requirements: {
             allowedTags: [AffinityTag.RANGED],
             forbiddenTags: [AffinityTag.MELEE]
@@ -122,7 +524,9 @@ export const ITEMS: Item[] = [
         manaWeight: 1,
         statsModifier: {
             health: 100,
-            moveSpeed: -0.3
+            moveSpeed: -0.3,
+            armor: 40,
+            mass: 1.0
         },
         requirements: {
             allowedTags: [AffinityTag.HUMAN, AffinityTag.STEEL],
@@ -138,8 +542,10 @@ export const ITEMS: Item[] = [
         manaWeight: 2,
         statsModifier: {
             damage: 40,
-            attackSpeed: 0.2
+            attackSpeed: 0.2,
+            damageType: DamageType.MAGIC
         },
+        onHitEffects: [{ type: StatusEffectType.SLOW, duration: 2, magnitude: 0.35 }],
         requirements: {
             allowedTags: [],
             forbiddenTags: [AffinityTag.SOLAR]
@@ -156,17 +562,126 @@ export const ITEMS: Item[] = [
             damage: 30,
             health: -20
         },
+        abilities: [{ type: ItemAbilityType.LIFESTEAL, value: 0.25 }],
         requirements: {
             allowedTags: [AffinityTag.VOID, AffinityTag.DEMON],
             forbiddenTags: [AffinityTag.SOLAR]
         },
         sprite3d: 'models/items/shadow_relic.glb'
+    },
+    {
+        itemId: 'thorn_mail_t1',
+        name: 'Cota de Espinhos',
+        description: 'Malha cravejada de espinhos. Quem golpeia de perto se fere.',
+        slot: SlotType.ARMOR,
+        manaWeight: 1,
+        statsModifier: {
+            health: 50,
+            armor: 15,
+            mass: 0.5
+        },
+        abilities: [{ type: ItemAbilityType.THORNS, value: 0.3 }],
+        requirements: {
+            allowedTags: [AffinityTag.MELEE],
+            forbiddenTags: []
+        },
+        sprite3d: 'models/items/thorn_mail.glb'
+    },
+    {
+        itemId: 'arcane_ward_t1',
+        name: 'Égide Arcana',
+        description: 'Barreira mágica que absorve os primeiros golpes recebidos.',
+        slot: SlotType.ARTIFACT,
+        manaWeight: 1,
+        statsModifier: {
+            magicResist: 25
+        },
+        abilities: [{ type: ItemAbilityType.SHIELD, value: 120 }],
+        requirements: {
+            allowedTags: [],
+            forbiddenTags: [AffinityTag.UNDEAD]
+        },
+        sprite3d: 'models/items/arcane_ward.glb'
+    },
+    {
+        itemId: 'holy_blade_t2',
+        name: 'Lâmina Sagrada',
+        description: 'Aço abençoado pelo sol. Fere criaturas das trevas com o dobro da força.',
+        slot: SlotType.WEAPON,
+        manaWeight: 2,
+        statsModifier: {
+            damage: 15
+        },
+        abilities: [{
+            type: ItemAbilityType.TAG_BONUS,
+            value: 1.0,
+            tags: [AffinityTag.DEMON, AffinityTag.VOID, AffinityTag.UNDEAD]
+        }],
+        requirements: {
+            allowedTags: [AffinityTag.HUMAN, AffinityTag.SOLAR],
+            forbiddenTags: [AffinityTag.DEMON, AffinityTag.VOID]
+        },
+        sprite3d: 'models/items/holy_blade.glb'
+    }
+];
+
+// ==========================================
+// SYNERGIES
+// ==========================================
+
+export const SYNERGIES: SynergyDefinition[] = [
+    {
+        synergyId: 'solar_radiance',
+        name: 'Radiância Solar',
+        description: '3+ unidades SOLAR em campo inflamam todos os aliados: +20% de dano.',
+        tag: AffinityTag.SOLAR,
+        minUnits: 3,
+        scope: SynergyScope.ALLIES,
+        bonus: { type: SynergyBonusType.DAMAGE, value: 0.2 }
+    },
+    {
+        synergyId: 'steel_wall',
+        name: 'Muralha de Aço',
+        description: 'Unidades STEEL lado a lado (2+ num raio de 3) recebem 15% menos dano.',
+        tag: AffinityTag.STEEL,
+        minUnits: 2,
+        radius: 3.0,
+        scope: SynergyScope.TAGGED,
+        bonus: { type: SynergyBonusType.DAMAGE_REDUCTION, value: 0.15 }
+    },
+    {
+        synergyId: 'ranged_volley',
+        name: 'Saraivada',
+        description: '3+ unidades RANGED em campo atacam 15% mais rápido.',
+        tag: AffinityTag.RANGED,
+        minUnits: 3,
+        scope: SynergyScope.TAGGED,
+        bonus: { type: SynergyBonusType.ATTACK_SPEED, value: 0.15 }
     }
 ];
 
+// ==========================================
+// DAMAGE MODIFIERS
+// ==========================================
+
+export const TAG_DAMAGE_MODIFIERS: TagDamageModifier[] = [
+    // Luz solar purifica mortos-vivos e criaturas do vazio
+    { targetTag: AffinityTag.UNDEAD, sourceTag: AffinityTag.SOLAR, multiplier: 1.5 },
+    { targetTag: AffinityTag.VOID, sourceTag: AffinityTag.SOLAR, multiplier: 1.25 },
+    // Fogo consome a natureza, mas pouco afeta água e demônios
+    { targetTag: AffinityTag.NATURE, damageType: DamageType.FIRE, multiplier: 1.5 },
+    { targetTag: AffinityTag.WATER_ELEMENTAL, damageType: DamageType.FIRE, multiplier: 0.5 },
+    { targetTag: AffinityTag.DEMON, damageType: DamageType.FIRE, multiplier: 0.5 },
+];
+
 //Cache for O(1) Access
 export const UnitsMap = new Map<string, UnitBase>(UNITS.map(u => [u.unitId, u]));
 export const ItemsMap = new Map<string, Item>(ITEMS.map(i => [i.itemId, i]));
+export const TowersMap = new Map<string, TowerDefinition>(TOWERS.map(t => [t.towerId, t]));
+export const SpellsMap = new Map<string, SpellDefinition>(SPELLS.map(s => [s.spellId, s]));
+export const BuildingsMap = new Map<string, BuildingDefinition>(BUILDINGS.map(b => [b.buildingId, b]));
+export const SynergiesMap = new Map<string, SynergyDefinition>(SYNERGIES.map(s => [s.synergyId, s]));
+export const ArenasMap = new Map<string, ArenaDefinition>(ARENAS.map(a => [a.arenaId, a]));
 
 export function getUnitById(id: string): UnitBase | undefined {
     return UnitsMap.get(id);
@@ -175,3 +690,33 @@ export function getUnitById(id: string): UnitBase | undefined {
 export function getItemById(id: string): Item | undefined {
     return ItemsMap.get(id);
 }
+
+export function getTowerById(id: string): TowerDefinition | undefined {
+    return TowersMap.get(id);
+}
+
+export function getSpellById(id: string): SpellDefinition | undefined {
+    return SpellsMap.get(id);
+}
+
+export function getBuildingById(id: string): BuildingDefinition | undefined {
+    return BuildingsMap.get(id);
+}
+
+export function getSynergyById(id: string): SynergyDefinition | undefined {
+    return SynergiesMap.get(id);
+}
+
+export function getArenaById(id: string): ArenaDefinition | undefined {
+    return ArenasMap.get(id);
+}
+
+/**
+ * Retorna o tipo de carta de um ID do catálogo (unidade, feitiço ou prédio).
+ */
+export function getCardKind(id: string): CardKind | undefined {
+    if (UnitsMap.has(id)) return CardKind.UNIT;
+    if (SpellsMap.has(id)) return CardKind.SPELL;
+    if (BuildingsMap.has(id)) return CardKind.BUILDING;
+    return undefined;
+}
@@ -3,10 +3,6 @@
  */
 
 export const GAME_CONFIG = {
-    // Map Dimensions (Logical Units)
-    MAP_WIDTH: 30,
-    MAP_HEIGHT: 40,
-
     // Mana System
     MAX_MANA: 10,
     MANA_REGEN_RATE: 0.5, // Mana per second (example) 
@@ -15,12 +11,16 @@ export const GAME_CONFIG = {
     TICK_RATE: 30, // Ticks per second
     TICK_INTERVAL_MS: 1000 / 30,
 
-    // Deployment Zones (Y coordinates constraints)
-    // Assuming P1 is bottom (0-15) and P2 is top (25-40)
-    PLAYER_1_DEPLOY_ZONE_MAX_Y: 15,
-    PLAYER_2_DEPLOY_ZONE_MIN_Y: 25,
+    // Map size, deploy zones and river come from the ArenaDefinition (see ARENAS in the catalog)
+
+    // Seconds a unit stays in DEPLOYING after spawn (unless the unit overrides it)
+    DEFAULT_DEPLOY_TIME: 1.0,
 };
 
 export const PHYSICS = {
+    // Defaults for units that don't override collisionRadius / mass
     COLLISION_RADIUS: 0.5,
+    DEFAULT_MASS: 1,
+    // Lightest mass an item can reduce a unit to
+    MIN_MASS: 0.1,
 };
@@ -2,7 +2,7 @@
  * Shared Network Protocol
  */
 
-import { EntityState, Vector2D } from './types.js';
+import { EntityState, StatusEffectType, Vector2D, MovementLayer, ArenaDefinition } from './types.js';
 
 // ============================================
 // ENUMS DE TIPO DE MENSAGEM
@@ -21,6 +21,13 @@ export enum S2CMessageType {
     MATCH_START = 'MATCH_START',
     ENTITY_SPAWNED = 'ENTITY_SPAWNED',
     GAME_TICK = 'GAME_TICK',
+    HAND_UPDATE = 'HAND_UPDATE',
+    ACTION_ACK = 'ACTION_ACK',
+    TOWER_ACTIVATED = 'TOWER_ACTIVATED',
+    MATCH_PHASE = 'MATCH_PHASE',
+    MANA_PHASE = 'MANA_PHASE',
+    SPELL_CAST = 'SPELL_CAST',
+    SYNERGY_UPDATE = 'SYNERGY_UPDATE',
     MATCH_END = 'MATCH_END',
     ERROR = 'ERROR',
 }
@@ -31,6 +38,29 @@ export enum ErrorCode {
     INVALID_CARD_INDEX = 'INVALID_CARD_INDEX',
     CARD_NOT_FOUND = 'CARD_NOT_FOUND',
     GAME_NOT_RUNNING = 'GAME_NOT_RUNNING',
+    INVALID_SEQUENCE = 'INVALID_SEQUENCE',
+    ACTION_QUEUE_FULL = 'ACTION_QUEUE_FULL',
+}
+
+export enum TowerActivationReason {
+    /** A torre recebeu dano */
+    DAMAGED = 'DAMAGED',
+    /** Uma torre lateral do mesmo lado foi destruída */
+    SIDE_TOWER_DESTROYED = 'SIDE_TOWER_DESTROYED',
+}
+
+export enum MatchPhase {
+    /** Tempo regular (3 minutos) */
+    REGULAR = 'REGULAR',
+    /** Prorrogação: a primeira coroa de vantagem vence */
+    OVERTIME = 'OVERTIME',
+    /** Morte súbita: as torres perdem vida continuamente */
+    SUDDEN_DEATH = 'SUDDEN_DEATH',
+}
+
+export enum MatchOutcome {
+    WIN = 'win',
+    DRAW = 'draw',
 }
 
 export enum EntityStateCode {
@@ -39,6 +69,7 @@ export enum EntityStateCode {
     ATTACKING = 2,
     COOLDOWN = 3,
     DEAD = 4,
+    DEPLOYING = 5,
 }
 
 export function stateToCode(state: EntityState): EntityStateCode {
@@ -48,6 +79,7 @@ export function stateToCode(state: EntityState): EntityStateCode {
         case EntityState.ATTACKING: return EntityStateCode.ATTACKING;
         case EntityState.COOLDOWN: return EntityStateCode.COOLDOWN;
         case EntityState.DEAD: return EntityStateCode.DEAD;
+        case EntityState.DEPLOYING: return EntityStateCode.DEPLOYING;
         default: return EntityStateCode.IDLE;
     }
 }
@@ -71,6 +103,8 @@ export interface C2SQueueLeave extends C2SMessageBase {
 
 export interface C2SSpawnCard extends C2SMessageBase {
     type: C2SMessageType.SPAWN_CARD;
+    /** Número de sequência do cliente (crescente por partida) */
+    seq: number;
     cardIndex: number;
     x: number;
     y: number;
@@ -108,6 +142,8 @@ export interface S2CMatchStart extends S2CMessageBase {
     you: PlayerMatchData;
     opponent: PlayerMatchData;
     tickRate: number;
+    /** Mapa da partida: o cliente desenha o terreno e as zonas de deploy a partir dele */
+    arena: ArenaDefinition;
 }
 
 export interface EntitySpawnData {
@@ -117,6 +153,15 @@ export interface EntitySpawnData {
     unitIdRef?: string; // Optional reference if unitId is obscure, but unitId should be the catalog string key
     maxHp: number;
     position: Vector2D;
+    /** Raio de colisão (unidades do grid): o cliente desenha a entidade com este tamanho */
+    radius: number;
+    isTower?: boolean;
+    /** Torres adormecidas (core) chegam com false */
+    isActive?: boolean;
+    /** Plano de movimento (ausente = GROUND) */
+    movementLayer?: MovementLayer;
+    /** Prédios posicionados por jogadores */
+    isBuilding?: boolean;
 }
 
 export interface S2CEntitySpawned extends S2CMessageBase {
@@ -130,6 +175,8 @@ export interface EntityDelta {
     y: number;
     hp: number;
     s: EntityStateCode;
+    /** Efeitos de status ativos (omitido quando não há nenhum) */
+    fx?: StatusEffectType[];
 }
 
 export interface TowerDelta {
@@ -137,12 +184,24 @@ export interface TowerDelta {
     hp: number;
 }
 
+export interface ProjectileDelta {
+    id: string;
+    /** unitId de quem disparou (para o renderer escolher flecha, raio...) */
+    unitId: string;
+    x: number;
+    y: number;
+    /** Ponto de impacto */
+    tx: number;
+    ty: number;
+}
+
 export interface GameTickPayload {
     tick: number;
     mana1: number;
     mana2: number;
     entities: EntityDelta[];
     towers: TowerDelta[];
+    projectiles: ProjectileDelta[];
 }
 
 export interface S2CGameTick extends S2CMessageBase {
@@ -150,9 +209,79 @@ export interface S2CGameTick extends S2CMessageBase {
     payload: GameTickPayload;
 }
 
+export interface HandCardData {
+    baseUnitId: string;
+    equippedItems: string[];
+    manaCost: number;
+}
+
+export interface S2CHandUpdate extends S2CMessageBase {
+    type: S2CMessageType.HAND_UPDATE;
+    hand: HandCardData[];
+    next: HandCardData | null;
+}
+
+export interface S2CActionAck extends S2CMessageBase {
+    type: S2CMessageType.ACTION_ACK;
+    seq: number;
+    /** Tick em que a ação foi processada */
+    tick: number;
+    accepted: boolean;
+}
+
+export interface S2CTowerActivated extends S2CMessageBase {
+    type: S2CMessageType.TOWER_ACTIVATED;
+    towerId: string;
+    reason: TowerActivationReason;
+}
+
+export interface CrownCount {
+    player1: number;
+    player2: number;
+}
+
+export interface S2CMatchPhase extends S2CMessageBase {
+    type: S2CMessageType.MATCH_PHASE;
+    phase: MatchPhase;
+    /** Tick em que a fase termina */
+    endsAtTick: number;
+}
+
+export interface S2CManaPhase extends S2CMessageBase {
+    type: S2CMessageType.MANA_PHASE;
+    /** Multiplicador atual da regeneração de mana (1 = normal, 2 = dupla...) */
+    multiplier: number;
+    maxMana: number;
+}
+
+export interface ActiveSynergyData {
+    synergyId: string;
+    /** Unidades que recebem o bônus */
+    affected: number;
+}
+
+/** Enviado a cada jogador quando suas sinergias ativas mudam */
+export interface S2CSynergyUpdate extends S2CMessageBase {
+    type: S2CMessageType.SYNERGY_UPDATE;
+    synergies: ActiveSynergyData[];
+}
+
+export interface S2CSpellCast extends S2CMessageBase {
+    type: S2CMessageType.SPELL_CAST;
+    spellId: string;
+    ownerId: string;
+    position: Vector2D;
+    radius: number;
+    /** IDs das entidades atingidas */
+    affected: string[];
+}
+
 export interface S2CMatchEnd extends S2CMessageBase {
     type: S2CMessageType.MATCH_END;
-    winnerId: string;
+    /** null em caso de empate */
+    winnerId: string | null;
+    outcome: MatchOutcome;
+    crowns: CrownCount;
     reason: string;
 }
 
@@ -182,6 +311,13 @@ export type S2CMessage =
     | S2CMatchStart
     | S2CEntitySpawned
     | S2CGameTick
+    | S2CHandUpdate
+    | S2CActionAck
+    | S2CTowerActivated
+    | S2CMatchPhase
+    | S2CManaPhase
+    | S2CSpellCast
+    | S2CSynergyUpdate
     | S2CMatchEnd
     | S2CError;
 
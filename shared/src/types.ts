@@ -2,6 +2,8 @@
  * Shared Types for Magic Royale
  */
 
+import { GAME_CONFIG, PHYSICS } from './constants.js';
+
 // ==========================================
 // TAGS & ENUMS
 // ==========================================
@@ -25,7 +27,15 @@ export enum SlotType {
     ARTIFACT = 'artifact',
 }
 
+export enum CardKind {
+    UNIT = 'unit',
+    SPELL = 'spell',
+    BUILDING = 'building',
+}
+
 export enum EntityState {
+    /** Recém-posicionada: visível e colidível, mas ainda não se move nem ataca */
+    DEPLOYING = 'DEPLOYING',
     IDLE = 'IDLE',
     MOVING = 'MOVING',
     ATTACKING = 'ATTACKING',
@@ -33,10 +43,63 @@ export enum EntityState {
     DEAD = 'DEAD',
 }
 
+// ==========================================
+// DAMAGE
+// ==========================================
+
+export enum DamageType {
+    /** Reduzido por armadura */
+    PHYSICAL = 'physical',
+    /** Reduzido por resistência mágica */
+    MAGIC = 'magic',
+    /** Reduzido por resistência mágica; forte contra NATURE, fraco contra água e demônios */
+    FIRE = 'fire',
+}
+
+/**
+ * Multiplicador de dano contra uma tag de afinidade.
+ * Aplica-se quando o atacante tem `sourceTag` e/ou o dano é do tipo `damageType`.
+ */
+export interface TagDamageModifier {
+    /** Tag de quem recebe o dano */
+    targetTag: AffinityTag;
+    /** Tag de quem causa o dano */
+    sourceTag?: AffinityTag;
+    /** Tipo de dano */
+    damageType?: DamageType;
+    multiplier: number;
+}
+
+
 // ==========================================
 // UNIT DEFINITIONS
 // ==========================================
 
+/**
+ * Plano em que a unidade se move.
+ * Unidades aéreas não colidem com unidades terrestres nem dependem do terreno.
+ */
+export enum MovementLayer {
+    GROUND = 'ground',
+    AIR = 'air',
+}
+
+/**
+ * Como a unidade escolhe o alvo entre os inimigos que consegue atacar.
+ */
+export enum TargetingPolicy {
+    /** Unidade mais próxima no aggroRange; senão a torre mais próxima */
+    NEAREST = 'nearest',
+    /** Ignora tropas: construção (torre ou prédio) mais próxima */
+    BUILDINGS = 'buildings',
+    /** Ignora tropas e prédios: torre mais próxima */
+    TOWERS = 'towers',
+    /** Unidade com menos vida no aggroRange; senão a torre mais próxima */
+    LOWEST_HP = 'lowest_hp',
+    /** Unidade com mais dano no aggroRange; senão a torre mais próxima */
+    HIGHEST_DAMAGE = 'highest_damage',
+}
+
 export interface UnitBaseStats {
     health: number;
     damage: number;
@@ -44,6 +107,38 @@ export interface UnitBaseStats {
     range: number;
     aggroRange: number;
     moveSpeed: number;
+    /** Velocidade do projétil (unidades/s). Ausente = ataque instantâneo (corpo-a-corpo) */
+    projectileSpeed?: number;
+    /** Raio do dano em área ao redor do ponto de impacto. Ausente = alvo único */
+    splashRadius?: number;
+    /** Fração do dano perdida na borda da área (0 = dano total, 1 = zero na borda) */
+    splashFalloff?: number;
+    /** Tipo do dano causado (default: PHYSICAL) */
+    damageType?: DamageType;
+    /** Reduz dano físico: armor / (armor + 100) */
+    armor?: number;
+    /** Reduz dano mágico e de fogo: magicResist / (magicResist + 100) */
+    magicResist?: number;
+}
+
+/**
+ * Stats finais de uma unidade com os itens equipados.
+ */
+export interface EffectiveUnitStats {
+    health: number;
+    damage: number;
+    attackSpeed: number;
+    range: number;
+    aggroRange: number;
+    moveSpeed: number;
+    projectileSpeed: number;
+    splashRadius: number;
+    splashFalloff: number;
+    damageType: DamageType;
+    armor: number;
+    magicResist: number;
+    /** Massa final (base + itens): define quem empurra quem nas colisões */
+    mass: number;
 }
 
 
@@ -53,6 +148,33 @@ export interface UnitSlots {
     [SlotType.ARTIFACT]?: boolean;
 }
 
+/**
+ * Formação: a carta posiciona várias cópias da unidade ao redor do ponto de deploy.
+ */
+export interface UnitFormation {
+    /** Unidades por carta */
+    count: number;
+    /** Distância entre unidades vizinhas (unidades do grid) */
+    spacing: number;
+}
+
+/**
+ * Efeito disparado quando a unidade morre.
+ */
+export interface DeathEffect {
+    /** Dano em área ao redor do ponto da morte */
+    damage?: number;
+    /** Raio do dano */
+    radius?: number;
+    /** Tipo do dano (default: o tipo de dano da unidade) */
+    damageType?: DamageType;
+    /** Unidades invocadas (sem itens) no ponto da morte */
+    spawn?: {
+        unitId: string;
+        count: number;
+    };
+}
+
 export interface UnitBase {
     unitId: string;
     name: string;
@@ -61,6 +183,24 @@ export interface UnitBase {
     manaCost: number;
     tags: AffinityTag[];
     slots: UnitSlots;
+    /** Plano de movimento (default: GROUND) */
+    movementLayer?: MovementLayer;
+    /** Pode atacar unidades aéreas (default: false) */
+    canTargetAir?: boolean;
+    /** Pode atacar unidades terrestres e torres (default: true) */
+    canTargetGround?: boolean;
+    /** Escolha de alvo (default: NEAREST) */
+    targetingPolicy?: TargetingPolicy;
+    /** Várias unidades por carta (ausente = uma unidade) */
+    formation?: UnitFormation;
+    /** Efeito ao morrer (dano em área e/ou invocação) */
+    deathEffect?: DeathEffect;
+    /** Tempo (s) em DEPLOYING após o spawn (default: GAME_CONFIG.DEFAULT_DEPLOY_TIME) */
+    deployTime?: number;
+    /** Raio do círculo de colisão (default: PHYSICS.COLLISION_RADIUS) */
+    collisionRadius?: number;
+    /** Massa: nas colisões, a unidade mais pesada é menos empurrada (default: PHYSICS.DEFAULT_MASS) */
+    mass?: number;
     sprite3d?: string; // Legacy or likely to be replaced by sprite2d
     sprite2d?: string; // Future proofing
 }
@@ -73,6 +213,222 @@ export function unitHasTag(unit: UnitBase, tag: AffinityTag): boolean {
     return unit.tags.includes(tag);
 }
 
+/**
+ * Planos que a unidade consegue atacar.
+ */
+export function getUnitTargetLayers(unit: UnitBase): MovementLayer[] {
+    const layers: MovementLayer[] = [];
+    if (unit.canTargetGround ?? true) layers.push(MovementLayer.GROUND);
+    if (unit.canTargetAir ?? false) layers.push(MovementLayer.AIR);
+    return layers;
+}
+
+/**
+ * Tempo (s) que a unidade passa em DEPLOYING após o spawn.
+ */
+export function getUnitDeployTime(unit: UnitBase): number {
+    return unit.deployTime ?? GAME_CONFIG.DEFAULT_DEPLOY_TIME;
+}
+
+/**
+ * Raio de colisão da unidade.
+ */
+export function getUnitCollisionRadius(unit: UnitBase): number {
+    return unit.collisionRadius ?? PHYSICS.COLLISION_RADIUS;
+}
+
+/**
+ * Massa base da unidade (sem itens).
+ */
+export function getUnitMass(unit: UnitBase): number {
+    return unit.mass ?? PHYSICS.DEFAULT_MASS;
+}
+
+
+// ==========================================
+// TOWER DEFINITIONS
+// ==========================================
+
+export enum TowerRole {
+    SIDE = 'side',
+    CORE = 'core',
+}
+
+export interface TowerBaseStats {
+    health: number;
+    damage: number;
+    attackSpeed: number;
+    range: number;
+    radius: number;
+    /** Velocidade do projétil (unidades/s) */
+    projectileSpeed?: number;
+}
+
+export interface TowerDefinition {
+    towerId: string;
+    name: string;
+    description: string;
+    role: TowerRole;
+    /** Se true, a torre começa adormecida e só ataca após ser ativada */
+    startsDormant: boolean;
+    baseStats: TowerBaseStats;
+    sprite3d?: string;
+    sprite2d?: string;
+}
+
+
+// ==========================================
+// BUILDING DEFINITIONS
+// ==========================================
+
+export interface BuildingBaseStats {
+    health: number;
+    /** Dano por ataque (0 = prédio não ataca) */
+    damage: number;
+    attackSpeed: number;
+    range: number;
+    radius: number;
+    /** Velocidade do projétil (unidades/s). Ausente = ataque instantâneo */
+    projectileSpeed?: number;
+    /** Tipo do dano causado (default: PHYSICAL) */
+    damageType?: DamageType;
+    armor?: number;
+    magicResist?: number;
+}
+
+/**
+ * Gerador de tropas: o prédio invoca unidades periodicamente enquanto existir.
+ */
+export interface BuildingSpawner {
+    /** Unidade invocada (sem itens) */
+    unitId: string;
+    /** Intervalo entre invocações (s) */
+    interval: number;
+    /** Unidades por invocação */
+    count: number;
+}
+
+export interface BuildingDefinition {
+    buildingId: string;
+    name: string;
+    description: string;
+    manaCost: number;
+    baseStats: BuildingBaseStats;
+    /** Tempo de vida (s): a vida decai continuamente até zero nesse prazo */
+    lifetime: number;
+    /** Pode atacar unidades aéreas (default: false) */
+    canTargetAir?: boolean;
+    spawner?: BuildingSpawner;
+    tags: AffinityTag[];
+    sprite2d?: string;
+}
+
+
+// ==========================================
+// STATUS EFFECTS
+// ==========================================
+
+export enum StatusEffectType {
+    /** Dano por segundo (acumula) */
+    BURN = 'burn',
+    /** Reduz velocidade de movimento e de ataque */
+    SLOW = 'slow',
+    /** Não se move nem ataca */
+    FREEZE = 'freeze',
+    /** Não se move nem ataca, e o ataque em preparo é interrompido */
+    STUN = 'stun',
+}
+
+/**
+ * Efeito de status aplicado ao acertar (itens) ou na área de um feitiço.
+ */
+export interface StatusEffectDefinition {
+    type: StatusEffectType;
+    /** Duração em segundos */
+    duration: number;
+    /** BURN: dano por segundo por acúmulo. SLOW: fração de redução (0..1) */
+    magnitude?: number;
+    /** Máximo de acúmulos do BURN (default: 1) */
+    maxStacks?: number;
+}
+
+
+// ==========================================
+// SYNERGIES
+// ==========================================
+
+export enum SynergyBonusType {
+    /** Dano bônus (fração) */
+    DAMAGE = 'damage',
+    /** Velocidade de ataque bônus (fração) */
+    ATTACK_SPEED = 'attack_speed',
+    /** Velocidade de movimento bônus (fração) */
+    MOVE_SPEED = 'move_speed',
+    /** Redução do dano recebido (fração) */
+    DAMAGE_REDUCTION = 'damage_reduction',
+}
+
+export enum SynergyScope {
+    /** Apenas unidades com a tag recebem o bônus */
+    TAGGED = 'tagged',
+    /** Todas as unidades aliadas recebem o bônus (aura) */
+    ALLIES = 'allies',
+}
+
+/**
+ * Regra de sinergia: unidades vivas do mesmo jogador que compartilham
+ * uma tag de afinidade concedem um bônus.
+ */
+export interface SynergyDefinition {
+    synergyId: string;
+    name: string;
+    description: string;
+    tag: AffinityTag;
+    /** Mínimo de unidades vivas com a tag para ativar */
+    minUnits: number;
+    /**
+     * Se definido, a sinergia é local: cada unidade com a tag só conta
+     * se houver `minUnits` unidades com a tag (incluindo ela) nesse raio
+     */
+    radius?: number;
+    scope: SynergyScope;
+    bonus: { type: SynergyBonusType; value: number };
+}
+
+
+// ==========================================
+// SPELL DEFINITIONS
+// ==========================================
+
+export enum SpellTarget {
+    ENEMIES = 'enemies',
+    ALLIES = 'allies',
+}
+
+export interface SpellDefinition {
+    spellId: string;
+    name: string;
+    description: string;
+    manaCost: number;
+    /** Raio da área de efeito (unidades do grid) */
+    radius: number;
+    /** Quem é afetado dentro da área */
+    target: SpellTarget;
+    /** Dano aplicado a cada alvo */
+    damage?: number;
+    /** Tipo do dano (default: MAGIC) */
+    damageType?: DamageType;
+    /** Cura aplicada a cada alvo (limitada à vida máxima) */
+    heal?: number;
+    /** Efeitos de status aplicados a cada alvo sobrevivente */
+    effects?: StatusEffectDefinition[];
+    /** Se true, torres dentro da área também são afetadas */
+    affectsTowers: boolean;
+    /** Fração do dano aplicada em torres (default: 1) */
+    towerDamageMultiplier?: number;
+    sprite2d?: string;
+}
+
 
 // ==========================================
 // ITEM DEFINITIONS
@@ -84,6 +440,39 @@ export interface ItemStatsModifier {
     attackSpeed?: number;
     range?: number;
     moveSpeed?: number;
+    splashRadius?: number;
+    splashFalloff?: number;
+    armor?: number;
+    magicResist?: number;
+    /** Massa adicionada ao portador (armaduras pesadas) */
+    mass?: number;
+    /** Converte o dano da unidade para este tipo (armas encantadas) */
+    damageType?: DamageType;
+}
+
+export enum ItemAbilityType {
+    /** Cura o portador em `value` (fração) do dano causado */
+    LIFESTEAL = 'lifesteal',
+    /** Reflete `value` (fração) do dano corpo-a-corpo recebido no atacante */
+    THORNS = 'thorns',
+    /** `value` de chance (0..1) de multiplicar o dano por `multiplier` */
+    CRITICAL = 'critical',
+    /** Dano bônus de `value` (fração, 1 = dobro) contra alvos com alguma das `tags` */
+    TAG_BONUS = 'tag_bonus',
+    /** Escudo que absorve os primeiros `value` de dano recebidos */
+    SHIELD = 'shield',
+}
+
+/**
+ * Comportamento de um item executado pelo pipeline de combate.
+ */
+export interface ItemAbility {
+    type: ItemAbilityType;
+    value: number;
+    /** CRITICAL: multiplicador de dano do acerto crítico */
+    multiplier?: number;
+    /** TAG_BONUS: tags dos alvos que recebem o bônus */
+    tags?: AffinityTag[];
 }
 
 export interface ItemRequirements {
@@ -98,6 +487,10 @@ export interface Item {
     slot: SlotType;
     manaWeight: number;
     statsModifier: ItemStatsModifier;
+    /** Efeitos de status aplicados ao alvo a cada acerto */
+    onHitEffects?: StatusEffectDefinition[];
+    /** Habilidades passivas e ao acertar (roubo de vida, espinhos...) */
+    abilities?: ItemAbility[];
     requirements: ItemRequirements;
     sprite3d?: string;
     sprite2d?: string;
@@ -112,6 +505,86 @@ export function isTagForbiddenByItem(item: Item, tag: AffinityTag): boolean {
 }
 
 
+// ==========================================
+// ARENA
+// ==========================================
+
+/**
+ * Ponte sobre o rio: faixa de X por onde unidades terrestres atravessam.
+ */
+export interface BridgeDefinition {
+    minX: number;
+    maxX: number;
+}
+
+/**
+ * Rio que divide a arena: faixa horizontal intransponível por terra, exceto nas pontes.
+ * Unidades aéreas passam por cima.
+ */
+export interface RiverDefinition {
+    minY: number;
+    maxY: number;
+    bridges: BridgeDefinition[];
+}
+
+/**
+ * Retângulo da arena em unidades do grid (limites inclusivos).
+ */
+export interface ArenaZone {
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+}
+
+/**
+ * Torre posicionada na arena. Vida, dano, alcance e raio vêm do catálogo de torres.
+ */
+export interface ArenaTowerPlacement {
+    /** ID da entidade na partida (ex: t1_left) */
+    id: string;
+    ownerId: 'player1' | 'player2';
+    /** ID da torre no catálogo */
+    towerId: string;
+    position: Vector2D;
+}
+
+/**
+ * Mapa jogável: tamanho, torres iniciais, zonas de deploy e rio.
+ * O Player 1 fica na parte de baixo (Y pequeno) e o Player 2 na de cima.
+ */
+export interface ArenaDefinition {
+    arenaId: string;
+    name: string;
+    /** Largura (X) e altura (Y) em unidades do grid */
+    width: number;
+    height: number;
+    towers: ArenaTowerPlacement[];
+    /** Onde cada jogador pode posicionar unidades e prédios (feitiços valem no mapa inteiro) */
+    deployZones: {
+        player1: ArenaZone;
+        player2: ArenaZone;
+    };
+    /** Rio que unidades terrestres só atravessam pelas pontes (null = arena aberta) */
+    river: RiverDefinition | null;
+}
+
+/**
+ * Limites do mapa inteiro da arena.
+ */
+export function getArenaBounds(arena: ArenaDefinition): ArenaZone {
+    return { minX: 0, maxX: arena.width, minY: 0, maxY: arena.height };
+}
+
+/**
+ * Verifica se o ponto está dentro da zona (bordas incluídas).
+ */
+export function isInsideZone(position: Vector2D, zone: ArenaZone): boolean {
+    return position.x >= zone.minX && position.x <= zone.maxX
+        && position.y >= zone.minY && position.y <= zone.maxY;
+}
+
+
 // ==========================================
 // GAME STATE
 // ==========================================
@@ -138,6 +611,7 @@ export interface EntitySnapshot {
 
 export interface CardConfig {
     slotIndex: number;
+    /** ID da unidade ou do feitiço no catálogo */
     baseUnitId: string;
     equippedItems: string[];
 }
@@ -160,6 +634,8 @@ export interface PlayerInventory {
 export interface ValidationResult {
     isValid: boolean;
     errors: ValidationError[];
+    /** Stats finais de cada carta, na ordem do deck (null para feitiços e cartas inválidas) */
+    effectiveStats?: (EffectiveUnitStats | null)[];
 }
 
 export interface ValidationError {
@@ -178,6 +654,8 @@ export enum ValidationErrorCode {
     INVALID_SLOT = 'INVALID_SLOT',
     MISSING_REQUIRED_TAG = 'MISSING_REQUIRED_TAG',
     FORBIDDEN_TAG_CONFLICT = 'FORBIDDEN_TAG_CONFLICT',
+    SPELL_CANNOT_EQUIP = 'SPELL_CANNOT_EQUIP',
+    BUILDING_CANNOT_EQUIP = 'BUILDING_CANNOT_EQUIP',
     EMPTY_DECK = 'EMPTY_DECK',
     DUPLICATE_SLOT = 'DUPLICATE_SLOT',
 }